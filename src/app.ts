@@ -8,8 +8,35 @@ import { GameEngine } from './game/engine';
 import { GameRenderer } from './game/renderer';
 import { InputHandler } from './input/keyboard';
 import type { ActionCallback, ActionReleaseCallback } from './input/keyboard';
+import { Action, GameStatus } from './game/types';
+import type { Board, GameState, Piece } from './game/types';
+import { FRAME_DURATION } from './game/constants';
+import type { PieceType } from './game/constants';
+import { ReplayRecorder } from './replay/recorder';
+import { ReplayPlayer } from './replay/player';
+import { serializeReplay, deserializeReplay } from './replay/format';
+import type { Replay } from './replay/format';
+import { serializeSnapshot, deserializeSnapshot } from './game/snapshot';
+import type { EngineSnapshot } from './game/snapshot';
+import { parsePuzzlePack } from './game/puzzle';
+import type { Puzzle } from './game/puzzle';
+import { PUZZLE_PACK } from './game/puzzles';
+import { encodeFumen, decodeFumen, createFumenPage, fumenPageToPuzzle } from './game/fumen';
+import { BotPlayer, MoveSearch, SEARCH_STEPS_PER_UPDATE } from './game/bot';
+import type { BotMove } from './game/bot';
+import { GAME_MODES } from './game/modes';
+import { lerp } from './utils/math';
 
-type AppState = 'off' | 'startup' | 'game';
+type AppState = 'off' | 'startup' | 'game' | 'replay' | 'demo';
+
+const REPLAY_STORAGE_KEY = 'brickdrop.lastReplay';
+const SNAPSHOT_STORAGE_KEY = 'brickdrop.savedGame';
+const PUZZLE_STORAGE_KEY = 'brickdrop.puzzles';
+const FINESSE_STORAGE_KEY = 'brickdrop.finesseWarnings';
+const HINTS_STORAGE_KEY = 'brickdrop.hints';
+const REPLAY_FAST_FORWARD = 4;
+const MAX_FRAME_TIME = 250;
+const DEMO_IDLE_TIME = 20000;
 
 export class App {
   private renderer: THREE.WebGLRenderer;
@@ -21,9 +48,27 @@ export class App {
   private cartridgeController: CartridgeController;
   private gameEngine: GameEngine;
   private gameRenderer: GameRenderer;
+  private replayRecorder: ReplayRecorder;
+  private replayPlayer: ReplayPlayer | null = null;
+  private lastReplay: Replay | null = null;
+  private savedGame: EngineSnapshot | null = null;
+  private importedPuzzles: Puzzle[] = [];
+  private puzzleIndex: number = 0;
+  private finesseWarnings: boolean = true;
+  private hintsEnabled: boolean = false;
+  private hint: BotMove | null = null;
+  private hintSource: { board: Board; type: PieceType } | null = null;
+  private hintSearch: MoveSearch | null = null;
+  private cpuPlayer: BotPlayer;
+  private demo: { engine: GameEngine; bot: BotPlayer } | null = null;
+  private idleTime: number = 0;
   private inputHandler: InputHandler;
   private screenTexture: THREE.CanvasTexture;
   private lastTime: number = 0;
+  private accumulator: number = 0;
+  private previousTime: number = 0;
+  private previousPhaseProgress: number = 0;
+  private previousPiece: Piece | null = null;
   private appState: AppState = 'off';
   private startupProgress: number = 0;
   private startupDuration: number = 2500;
@@ -48,6 +93,24 @@ export class App {
     
     this.gameEngine = new GameEngine();
     this.gameRenderer = new GameRenderer();
+    this.bindEngineEffects(this.gameEngine);
+    this.gameEngine.on('finesse', () => {
+      if (this.finesseWarnings) this.gameRenderer.showBanner('FINESSE');
+    });
+    
+    this.replayRecorder = new ReplayRecorder(this.gameEngine);
+    this.replayRecorder.setOnFinish((replay) => this.saveReplay(replay));
+    this.lastReplay = this.loadReplay();
+    this.cpuPlayer = new BotPlayer(this.gameEngine, this.replayRecorder);
+    
+    this.importedPuzzles = this.loadPuzzles();
+    this.finesseWarnings = this.loadFinesseWarnings();
+    this.hintsEnabled = this.loadHintsEnabled();
+    
+    this.savedGame = this.loadSnapshot();
+    this.gameRenderer.setContinueAvailable(this.savedGame !== null);
+    this.gameEngine.on('start', () => this.clearSnapshot());
+    this.gameEngine.on('end', () => this.clearSnapshot());
     
     this.screenTexture = new THREE.CanvasTexture(this.gameRenderer.getCanvas());
     this.screenTexture.minFilter = THREE.LinearFilter;
@@ -57,16 +120,53 @@ export class App {
     screenMaterial.emissiveMap = this.screenTexture;
     
     const onAction: ActionCallback = (action) => {
+      this.idleTime = 0;
       if (this.appState === 'game') {
-        this.gameEngine.handleAction(action);
+        if (this.isCpuPlaying() && action !== Action.START_PAUSE && action !== Action.RESTART) {
+          return;
+        }
+        if (action === Action.REPLAY) {
+          this.startReplay();
+          return;
+        }
+        if (action === Action.EXPORT) {
+          this.exportFumen();
+          return;
+        }
+        if (action === Action.TOGGLE_FINESSE) {
+          this.toggleFinesseWarnings();
+          return;
+        }
+        if (action === Action.TOGGLE_HINTS) {
+          this.toggleHints();
+          return;
+        }
+        if (action === Action.HOLD && this.continueGame()) {
+          return;
+        }
+        if (action === Action.ROTATE_CW && this.cyclePuzzle(1)) {
+          return;
+        }
+        if (action === Action.SOFT_DROP && this.cyclePuzzle(-1)) {
+          return;
+        }
+        this.replayRecorder.handleAction(action);
         this.buttonController.setPressed(action, true);
+      } else if (this.appState === 'replay') {
+        this.handleReplayAction(action);
+      } else if (this.appState === 'demo') {
+        this.stopDemo();
       }
     };
     
     const onActionRelease: ActionReleaseCallback = (action) => {
       if (this.appState === 'game') {
-        this.gameEngine.handleActionRelease(action);
+        if (!this.isCpuPlaying()) {
+          this.replayRecorder.handleActionRelease(action);
+        }
         this.buttonController.setPressed(action, false);
+      } else if (this.appState === 'replay' && action === Action.MOVE_RIGHT && this.replayPlayer) {
+        this.replayPlayer.speed = 1;
       }
     };
     
@@ -78,6 +178,13 @@ export class App {
       this.appState = 'startup';
     });
     
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden) this.saveSnapshot();
+    });
+    window.addEventListener('pagehide', () => this.saveSnapshot());
+    window.addEventListener('dragover', (event) => event.preventDefault());
+    window.addEventListener('drop', (event) => this.onDrop(event));
+    window.addEventListener('paste', (event) => this.onPaste(event));
     window.addEventListener('resize', this.onResize.bind(this));
     window.addEventListener('click', this.onClick.bind(this));
   }
@@ -86,6 +193,260 @@ export class App {
     this.cartridgeController.handleClick(event, this.camera, this.scene);
   }
   
+  private startReplay(): void {
+    if (!this.lastReplay || this.gameEngine.status === GameStatus.PLAYING) return;
+    
+    this.replayPlayer = new ReplayPlayer(this.lastReplay);
+    this.bindEngineEffects(this.replayPlayer.engine);
+    this.appState = 'replay';
+  }
+  
+  private isCpuPlaying(): boolean {
+    return GAME_MODES[this.gameEngine.state.mode].bot === true && this.gameEngine.status === GameStatus.PLAYING;
+  }
+  
+  // Left on the title screen, the CPU plays until any key is pressed.
+  private startDemo(): void {
+    const engine = new GameEngine({ mode: 'cpu' });
+    this.demo = { engine, bot: new BotPlayer(engine) };
+    this.bindEngineEffects(engine);
+    engine.start();
+    this.appState = 'demo';
+  }
+  
+  private stopDemo(): void {
+    this.demo = null;
+    this.idleTime = 0;
+    this.appState = 'game';
+  }
+  
+  private bindEngineEffects(engine: GameEngine): void {
+    engine.on('perfectClear', () => this.gameRenderer.showBanner('PERFECT CLEAR'));
+  }
+  
+  // Hints are worked out once per piece and board with the bot's search, spread over a few ticks, so
+  // holds and undos get a fresh one; ranked modes and games the CPU plays never get one.
+  private updateHint(): void {
+    const engine = this.gameEngine;
+    const piece = engine.state.currentPiece;
+    const mode = GAME_MODES[engine.state.mode];
+    if (!this.hintsEnabled || !piece || mode.ranked || mode.bot) {
+      this.hint = null;
+      this.hintSource = null;
+      this.hintSearch = null;
+      return;
+    }
+    
+    const source = this.hintSource;
+    if (!source || source.board !== engine.state.board || source.type !== piece.type) {
+      this.hintSource = { board: engine.state.board, type: piece.type };
+      this.hint = null;
+      this.hintSearch = new MoveSearch(engine.state, engine.getRotationSystem(), engine.getSettings().kicks180 ?? 'modern');
+    }
+    
+    if (this.hintSearch?.step(SEARCH_STEPS_PER_UPDATE)) {
+      this.hint = this.hintSearch.getBest();
+      this.hintSearch = null;
+    }
+  }
+  
+  private toggleHints(): void {
+    this.hintsEnabled = !this.hintsEnabled;
+    this.updateHint();
+    this.gameRenderer.showBanner(this.hintsEnabled ? 'HINTS ON' : 'HINTS OFF');
+    try {
+      localStorage.setItem(HINTS_STORAGE_KEY, this.hintsEnabled ? 'on' : 'off');
+    } catch {
+      // Storage can be full or disabled; the choice lasts for this session.
+    }
+  }
+  
+  private loadHintsEnabled(): boolean {
+    try {
+      return localStorage.getItem(HINTS_STORAGE_KEY) === 'on';
+    } catch {
+      return false;
+    }
+  }
+  
+  private loadFinesseWarnings(): boolean {
+    try {
+      return localStorage.getItem(FINESSE_STORAGE_KEY) !== 'off';
+    } catch {
+      return true;
+    }
+  }
+  
+  private toggleFinesseWarnings(): void {
+    this.finesseWarnings = !this.finesseWarnings;
+    this.gameRenderer.showBanner(this.finesseWarnings ? 'FINESSE ON' : 'FINESSE OFF');
+    try {
+      localStorage.setItem(FINESSE_STORAGE_KEY, this.finesseWarnings ? 'on' : 'off');
+    } catch {
+      // Storage can be full or disabled; the choice lasts for this session.
+    }
+  }
+  
+  private handleReplayAction(action: number): void {
+    if (!this.replayPlayer) return;
+    
+    switch (action) {
+      case Action.START_PAUSE:
+        this.replayPlayer.togglePause();
+        break;
+      case Action.MOVE_RIGHT:
+        this.replayPlayer.speed = REPLAY_FAST_FORWARD;
+        break;
+      case Action.SOFT_DROP:
+        this.replayPlayer.paused = true;
+        this.replayPlayer.step();
+        break;
+      case Action.REPLAY:
+      case Action.RESTART:
+        this.replayPlayer = null;
+        this.appState = 'game';
+        break;
+    }
+  }
+  
+  private saveReplay(replay: Replay): void {
+    this.lastReplay = replay;
+    try {
+      localStorage.setItem(REPLAY_STORAGE_KEY, serializeReplay(replay));
+    } catch {
+      // Storage can be full or disabled; the replay stays available in memory.
+    }
+  }
+  
+  private loadReplay(): Replay | null {
+    try {
+      const json = localStorage.getItem(REPLAY_STORAGE_KEY);
+      return json ? deserializeReplay(json) : null;
+    } catch {
+      return null;
+    }
+  }
+  
+  private continueGame(): boolean {
+    if (!this.savedGame || this.gameEngine.status !== GameStatus.ATTRACT) return false;
+    
+    this.gameEngine.restoreSnapshot(this.savedGame);
+    return true;
+  }
+  
+  private saveSnapshot(): void {
+    const status = this.gameEngine.status;
+    if (status !== GameStatus.PLAYING && status !== GameStatus.PAUSED) return;
+    
+    this.savedGame = this.gameEngine.createSnapshot();
+    this.gameRenderer.setContinueAvailable(true);
+    try {
+      localStorage.setItem(SNAPSHOT_STORAGE_KEY, serializeSnapshot(this.savedGame));
+    } catch {
+      // Storage can be full or disabled; the save stays available in memory.
+    }
+  }
+  
+  private loadSnapshot(): EngineSnapshot | null {
+    try {
+      const json = localStorage.getItem(SNAPSHOT_STORAGE_KEY);
+      return json ? deserializeSnapshot(json) : null;
+    } catch {
+      return null;
+    }
+  }
+  
+  private clearSnapshot(): void {
+    this.savedGame = null;
+    this.gameRenderer.setContinueAvailable(false);
+    try {
+      localStorage.removeItem(SNAPSHOT_STORAGE_KEY);
+    } catch {
+      // Nothing to clear when storage is unavailable.
+    }
+  }
+  
+  private cyclePuzzle(step: number): boolean {
+    if (this.gameEngine.state.mode !== 'puzzle' || this.gameEngine.status !== GameStatus.ATTRACT) return false;
+    
+    const puzzles = [...PUZZLE_PACK.puzzles, ...this.importedPuzzles];
+    this.puzzleIndex = (this.puzzleIndex + step + puzzles.length) % puzzles.length;
+    this.gameEngine.setPuzzle(puzzles[this.puzzleIndex]);
+    return true;
+  }
+  
+  private async onDrop(event: DragEvent): Promise<void> {
+    event.preventDefault();
+    const file = event.dataTransfer?.files[0];
+    if (!file) return;
+    
+    try {
+      const pack = parsePuzzlePack(await file.text());
+      this.importedPuzzles.push(...pack.puzzles);
+      this.gameRenderer.showBanner(`${pack.puzzles.length} PUZZLES`);
+      this.savePuzzles();
+    } catch {
+      // Unreadable packs are ignored; anything already imported stays available in memory.
+    }
+  }
+  
+  // Pasted fumen pages become puzzles while puzzle mode is selected and a practice setup otherwise.
+  private onPaste(event: ClipboardEvent): void {
+    const text = event.clipboardData?.getData('text') ?? '';
+    const status = this.gameEngine.status;
+    if (!text.includes('v115@') || (status !== GameStatus.ATTRACT && status !== GameStatus.GAME_OVER)) return;
+    
+    try {
+      const pages = decodeFumen(text);
+      if (this.gameEngine.state.mode !== 'puzzle') {
+        this.gameEngine.setPracticeSetup(fumenPageToPuzzle(pages[0], 'FUMEN'));
+        this.gameRenderer.showBanner('FUMEN LOADED');
+        return;
+      }
+      
+      const puzzles = pages
+        .map((page, i) => fumenPageToPuzzle(page, `FUMEN ${i + 1}`))
+        .filter(puzzle => puzzle.queue.length > 0);
+      if (puzzles.length === 0) return;
+      
+      this.puzzleIndex = PUZZLE_PACK.puzzles.length + this.importedPuzzles.length;
+      this.importedPuzzles.push(...puzzles);
+      this.gameEngine.setPuzzle(puzzles[0]);
+      this.gameRenderer.showBanner(`${puzzles.length} PUZZLES`);
+      this.savePuzzles();
+    } catch {
+      // Pasted text that is not a readable fumen is ignored.
+    }
+  }
+  
+  private async exportFumen(): Promise<void> {
+    const states = [...this.gameEngine.getHistoryStates(), this.gameEngine.state];
+    
+    try {
+      await navigator.clipboard.writeText(encodeFumen(states.map(createFumenPage)));
+      this.gameRenderer.showBanner('FUMEN COPIED');
+    } catch {
+      // Boards fumen cannot describe, or a clipboard the page may not write to, leave nothing to copy.
+    }
+  }
+  
+  private savePuzzles(): void {
+    try {
+      localStorage.setItem(PUZZLE_STORAGE_KEY, JSON.stringify({ name: 'IMPORTED', puzzles: this.importedPuzzles }));
+    } catch {
+      // Storage can be full or disabled; imported puzzles stay available in memory.
+    }
+  }
+  
+  private loadPuzzles(): Puzzle[] {
+    try {
+      const json = localStorage.getItem(PUZZLE_STORAGE_KEY);
+      return json ? parsePuzzlePack(json).puzzles : [];
+    } catch {
+      return [];
+    }
+  }
+  
   private onResize(): void {
     this.camera.aspect = window.innerWidth / window.innerHeight;
     this.camera.updateProjectionMatrix();
@@ -101,37 +462,122 @@ export class App {
     requestAnimationFrame(this.animate);
     
     const currentTime = performance.now();
-    const dt = currentTime - this.lastTime;
+    const dt = Math.min(currentTime - this.lastTime, MAX_FRAME_TIME);
     this.lastTime = currentTime;
     
     this.controls.update();
     
     this.cartridgeController.update(dt);
     
+    this.accumulator += dt;
+    while (this.accumulator >= FRAME_DURATION) {
+      this.tick();
+      this.accumulator -= FRAME_DURATION;
+    }
+    const alpha = this.accumulator / FRAME_DURATION;
+    
     if (this.appState === 'startup') {
       this.startupProgress += dt / this.startupDuration;
       
       if (this.startupProgress >= 1) {
         this.appState = 'game';
         this.setPowerLightGreen();
-        this.gameEngine.start();
       }
       
       this.gameRenderer.renderStartup(this.startupProgress);
       this.screenTexture.needsUpdate = true;
     } else if (this.appState === 'game') {
-      this.inputHandler.update(dt);
-      this.gameEngine.update(dt);
-      
-      this.gameRenderer.render(this.gameEngine.state, this.gameEngine.getGhostY());
+      this.gameRenderer.render(
+        this.interpolateState(this.gameEngine.state, alpha),
+        this.gameEngine.getGhostY(),
+        this.gameEngine.getRotationSystem().getCells,
+        this.hint
+      );
       this.screenTexture.needsUpdate = true;
       
       this.buttonController.update();
+    } else if (this.appState === 'replay' && this.replayPlayer) {
+      const player = this.replayPlayer;
+      this.gameRenderer.render(
+        this.interpolateState(player.engine.state, alpha),
+        player.engine.getGhostY(),
+        player.engine.getRotationSystem().getCells
+      );
+      this.gameRenderer.renderReplayOverlay(player.paused, player.speed, player.isFinished());
+      this.screenTexture.needsUpdate = true;
+    } else if (this.appState === 'demo' && this.demo) {
+      const engine = this.demo.engine;
+      this.gameRenderer.render(
+        this.interpolateState(engine.state, alpha),
+        engine.getGhostY(),
+        engine.getRotationSystem().getCells
+      );
+      this.gameRenderer.renderDemoOverlay();
+      this.screenTexture.needsUpdate = true;
     }
     
     this.renderer.render(this.scene, this.camera);
   };
   
+  private tick(): void {
+    this.inputHandler.update(FRAME_DURATION);
+    
+    const engine = this.appState === 'replay' && this.replayPlayer
+      ? this.replayPlayer.engine
+      : this.appState === 'demo' && this.demo ? this.demo.engine : this.gameEngine;
+    this.previousTime = engine.state.time;
+    this.previousPhaseProgress = engine.state.phaseProgress;
+    this.previousPiece = engine.state.currentPiece && { ...engine.state.currentPiece };
+    
+    if (this.appState === 'game') {
+      if (this.isCpuPlaying()) {
+        this.cpuPlayer.update(FRAME_DURATION);
+      }
+      this.replayRecorder.update();
+      this.updateHint();
+      
+      this.idleTime = this.gameEngine.status === GameStatus.ATTRACT ? this.idleTime + FRAME_DURATION : 0;
+      if (this.idleTime >= DEMO_IDLE_TIME) {
+        this.startDemo();
+      }
+    } else if (this.appState === 'replay' && this.replayPlayer) {
+      this.replayPlayer.update(FRAME_DURATION);
+    } else if (this.appState === 'demo' && this.demo) {
+      this.demo.bot.update(FRAME_DURATION);
+      this.demo.engine.update(FRAME_DURATION);
+      if (this.demo.engine.status === GameStatus.GAME_OVER) {
+        this.stopDemo();
+      }
+    }
+  }
+  
+  // Renders between the last two ticks so motion stays smooth at any display refresh rate.
+  // The active piece slides only across single-cell steps; rotations, drops and new pieces snap.
+  private interpolateState(state: GameState, alpha: number): GameState {
+    const phaseProgress = this.previousPhaseProgress <= state.phaseProgress
+      ? lerp(this.previousPhaseProgress, state.phaseProgress, alpha)
+      : state.phaseProgress;
+    const time = this.previousTime <= state.time ? lerp(this.previousTime, state.time, alpha) : state.time;
+    
+    const previous = this.previousPiece;
+    let currentPiece = state.currentPiece;
+    if (
+      previous && currentPiece &&
+      previous.type === currentPiece.type &&
+      previous.rotation === currentPiece.rotation &&
+      Math.abs(currentPiece.x - previous.x) <= 1 &&
+      Math.abs(currentPiece.y - previous.y) <= 1
+    ) {
+      currentPiece = {
+        ...currentPiece,
+        x: lerp(previous.x, currentPiece.x, alpha),
+        y: lerp(previous.y, currentPiece.y, alpha),
+      };
+    }
+    
+    return { ...state, time, phaseProgress, currentPiece };
+  }
+  
   private setPowerLightGreen(): void {
     const material = this.handheld.powerLight.material as THREE.MeshStandardMaterial;
     material.color.setHex(0x00FF00);
@@ -1,35 +1,46 @@
-import { BOARD_WIDTH, TOTAL_HEIGHT, SPAWN_ROWS } from './constants';
-import type { Board, Piece } from './types';
+import { SPAWN_ROWS, DEFAULT_DIMENSIONS } from './constants';
+import type { BoardDimensions } from './constants';
+import type { Board, Piece, Position } from './types';
+import type { PieceType } from './constants';
 import { getPieceCells, getPieceColor } from './piece';
 
-export function createEmptyBoard(): Board {
-  return Array(TOTAL_HEIGHT).fill(null).map(() => Array(BOARD_WIDTH).fill(0));
+export type CellGetter = (type: PieceType, rotation: number) => Position[];
+
+export function createEmptyBoard(dimensions: BoardDimensions = DEFAULT_DIMENSIONS): Board {
+  const totalHeight = dimensions.height + dimensions.spawnRows;
+  return Array(totalHeight).fill(null).map(() => Array(dimensions.width).fill(0));
+}
+
+export function isCellOccupied(board: Board, x: number, y: number): boolean {
+  if (x < 0 || x >= board[0].length || y < 0 || y >= board.length) return true;
+  return board[y][x] !== 0;
 }
 
-export function isValidPosition(board: Board, piece: Piece): boolean {
-  const cells = getPieceCells(piece.type, piece.rotation);
+export function isValidPosition(board: Board, piece: Piece, getCells: CellGetter = getPieceCells): boolean {
+  const cells = getCells(piece.type, piece.rotation);
+  const width = board[0].length;
   
   for (const [dx, dy] of cells) {
     const x = piece.x + dx;
     const y = piece.y + dy;
     
-    if (x < 0 || x >= BOARD_WIDTH) return false;
-    if (y < 0 || y >= TOTAL_HEIGHT) return false;
+    if (x < 0 || x >= width) return false;
+    if (y < 0 || y >= board.length) return false;
     if (board[y][x] !== 0) return false;
   }
   
   return true;
 }
 
-export function placePiece(board: Board, piece: Piece): Board {
+export function placePiece(board: Board, piece: Piece, getCells: CellGetter = getPieceCells): Board {
   const newBoard = board.map(row => [...row]);
-  const cells = getPieceCells(piece.type, piece.rotation);
+  const cells = getCells(piece.type, piece.rotation);
   const color = getPieceColor(piece.type);
   
   for (const [dx, dy] of cells) {
     const x = piece.x + dx;
     const y = piece.y + dy;
-    if (y >= 0 && y < TOTAL_HEIGHT && x >= 0 && x < BOARD_WIDTH) {
+    if (y >= 0 && y < board.length && x >= 0 && x < board[0].length) {
       newBoard[y][x] = color;
     }
   }
@@ -37,35 +48,49 @@ export function placePiece(board: Board, piece: Piece): Board {
   return newBoard;
 }
 
-export function clearLines(board: Board): { newBoard: Board; linesCleared: number } {
+export function clearLines(board: Board): { newBoard: Board; linesCleared: number; clearedRows: number[] } {
   const newBoard: Board = [];
+  const clearedRows: number[] = [];
   let linesCleared = 0;
   
-  for (let y = 0; y < TOTAL_HEIGHT; y++) {
+  for (let y = 0; y < board.length; y++) {
     if (board[y].every(cell => cell !== 0)) {
       linesCleared++;
+      clearedRows.push(y);
     } else {
       newBoard.push([...board[y]]);
     }
   }
   
-  while (newBoard.length < TOTAL_HEIGHT) {
-    newBoard.unshift(Array(BOARD_WIDTH).fill(0));
+  while (newBoard.length < board.length) {
+    newBoard.unshift(Array(board[0].length).fill(0));
   }
   
-  return { newBoard, linesCleared };
+  return { newBoard, linesCleared, clearedRows };
 }
 
-export function getGhostPosition(board: Board, piece: Piece): number {
+export function isBoardEmpty(board: Board): boolean {
+  return board.every(row => row.every(cell => cell === 0));
+}
+
+export function getGhostPosition(board: Board, piece: Piece, getCells: CellGetter = getPieceCells): number {
   let ghostY = piece.y;
   
-  while (isValidPosition(board, { ...piece, y: ghostY + 1 })) {
+  while (isValidPosition(board, { ...piece, y: ghostY + 1 }, getCells)) {
     ghostY++;
   }
   
   return ghostY;
 }
 
-export function getVisibleBoard(board: Board): number[][] {
-  return board.slice(SPAWN_ROWS);
+// The board cells a piece covers, in a fixed order, so placements that fill the same cells compare equal.
+export function cellsKey(piece: Piece, getCells: CellGetter = getPieceCells): string {
+  return getCells(piece.type, piece.rotation)
+    .map(([dx, dy]) => `${piece.x + dx},${piece.y + dy}`)
+    .sort()
+    .join(' ');
+}
+
+export function getVisibleBoard(board: Board, spawnRows: number = SPAWN_ROWS): number[][] {
+  return board.slice(spawnRows);
 }
@@ -0,0 +1,471 @@
+import type { PieceType } from './constants';
+import type { Board, GameState, Piece, Kick180Set, TSpinType, ActionType } from './types';
+import { Action, GameStatus, TSpin } from './types';
+import { isValidPosition, getGhostPosition, placePiece, clearLines, cellsKey } from './board';
+import { detectTSpin } from './spin';
+import { createSpawnPiece } from './rotation';
+import type { RotationSystem } from './rotation';
+import type { GameEngine } from './engine';
+
+export interface BotWeights {
+  aggregateHeight: number;
+  holes: number;
+  bumpiness: number;
+  wellDepth: number;
+  tSpinSlots: number;
+  lines: number;
+  tSpin: number;
+}
+
+// Inputs end in a hard drop. SOFT_DROP means hold soft drop until the piece lands, which is how
+// tucks and spins are set up before the last move.
+export interface Placement {
+  piece: Piece;
+  inputs: ActionType[];
+  tSpin: TSpinType;
+}
+
+export interface BotMove extends Placement {
+  hold: boolean;
+  score: number;
+}
+
+export interface BotInput {
+  handleAction(action: number): void;
+  handleActionRelease(action: number): void;
+}
+
+export const DEFAULT_BOT_WEIGHTS: BotWeights = {
+  aggregateHeight: -0.51,
+  holes: -0.36,
+  bumpiness: -0.18,
+  wellDepth: 0.05,
+  tSpinSlots: 0.3,
+  lines: 0.76,
+  tSpin: 1,
+};
+
+const BOT_INPUT_DELAY = 50;
+const TOP_OUT_PENALTY = 1000;
+
+// Search nodes expanded or placements scored per update, which keeps each update to a few milliseconds.
+export const SEARCH_STEPS_PER_UPDATE = 200;
+
+const MOVES: [ActionType, number][] = [[Action.MOVE_LEFT, -1], [Action.MOVE_RIGHT, 1]];
+const ROTATIONS: [ActionType, number][] = [[Action.ROTATE_CW, 1], [Action.ROTATE_CCW, -1], [Action.ROTATE_180, 2]];
+
+interface SearchNode {
+  piece: Piece;
+  inputs: ActionType[];
+  kickIndex: number | null;
+  direction: number;
+}
+
+interface Landing {
+  piece: Piece;
+  tSpin: TSpinType;
+}
+
+function placementKey(landing: Landing, getCells: RotationSystem['getCells']): string {
+  return `${cellsKey(landing.piece, getCells)}|${landing.tSpin}`;
+}
+
+function nodeKey(node: SearchNode): string {
+  const spin = node.kickIndex === null ? '' : `,${node.kickIndex},${node.direction}`;
+  return `${node.piece.x},${node.piece.y},${node.piece.rotation}${spin}`;
+}
+
+// A T keeps its spin only if the hard drop does not move it.
+function land(
+  board: Board,
+  piece: Piece,
+  kickIndex: number | null,
+  direction: number,
+  getCells: RotationSystem['getCells']
+): Landing {
+  const ghostY = getGhostPosition(board, piece, getCells);
+  const landed = { ...piece, y: ghostY };
+  const tSpin = ghostY === piece.y && kickIndex !== null
+    ? detectTSpin(board, landed, kickIndex, direction, getCells)
+    : TSpin.NONE;
+  return { piece: landed, tSpin };
+}
+
+// Breadth-first over moves, rotations (with the active kicks) and soft drops, so each placement
+// keeps its shortest input sequence. A rotation's kick is part of the state so T-Spins are found.
+// Nodes are expanded a batch at a time so a search can be spread over several frames.
+class PlacementSearch {
+  private board: Board;
+  private rotationSystem: RotationSystem;
+  private kicks180: Kick180Set;
+  private queue: SearchNode[];
+  private visited: Set<string>;
+  private index: number = 0;
+  private placements: Map<string, Placement> = new Map();
+  
+  constructor(board: Board, start: Piece, rotationSystem: RotationSystem, kicks180: Kick180Set) {
+    this.board = board;
+    this.rotationSystem = rotationSystem;
+    this.kicks180 = kicks180;
+    
+    const first: SearchNode = { piece: start, inputs: [], kickIndex: null, direction: 0 };
+    this.queue = [first];
+    this.visited = new Set([nodeKey(first)]);
+  }
+  
+  isDone(): boolean {
+    return this.index >= this.queue.length;
+  }
+  
+  getPlacements(): Placement[] {
+    return [...this.placements.values()];
+  }
+  
+  getPlacement(key: string): Placement | undefined {
+    return this.placements.get(key);
+  }
+  
+  // Expands up to `steps` nodes and returns how many it expanded.
+  step(steps: number): number {
+    const { board, rotationSystem, kicks180 } = this;
+    const { getCells } = rotationSystem;
+    let expanded = 0;
+    
+    for (; expanded < steps && !this.isDone(); expanded++) {
+      const node = this.queue[this.index++];
+      const { piece } = node;
+      
+      const landing = land(board, piece, node.kickIndex, node.direction, getCells);
+      const key = placementKey(landing, getCells);
+      if (!this.placements.has(key)) {
+        this.placements.set(key, { ...landing, inputs: [...node.inputs, Action.HARD_DROP] });
+      }
+      
+      const next: SearchNode[] = [];
+      for (const [action, dx] of MOVES) {
+        const moved = { ...piece, x: piece.x + dx };
+        if (isValidPosition(board, moved, getCells)) {
+          next.push({ piece: moved, inputs: [...node.inputs, action], kickIndex: null, direction: 0 });
+        }
+      }
+      for (const [action, direction] of ROTATIONS) {
+        const result = rotationSystem.rotate(board, piece, direction, kicks180);
+        if (result) {
+          next.push({ piece: result.piece, inputs: [...node.inputs, action], kickIndex: result.kickIndex, direction });
+        }
+      }
+      if (landing.piece.y > piece.y) {
+        next.push({ piece: landing.piece, inputs: [...node.inputs, Action.SOFT_DROP], kickIndex: null, direction: 0 });
+      }
+      
+      for (const candidate of next) {
+        const candidateKey = nodeKey(candidate);
+        if (this.visited.has(candidateKey)) continue;
+        this.visited.add(candidateKey);
+        this.queue.push(candidate);
+      }
+    }
+    
+    return expanded;
+  }
+}
+
+// Where a sequence of inputs lands a piece if nothing else moves it, or null if one of them fails.
+function followInputs(
+  board: Board,
+  start: Piece,
+  inputs: ActionType[],
+  rotationSystem: RotationSystem,
+  kicks180: Kick180Set
+): Landing | null {
+  const { getCells } = rotationSystem;
+  let piece = start;
+  let kickIndex: number | null = null;
+  let direction = 0;
+  
+  for (const action of inputs) {
+    if (action === Action.HARD_DROP) break;
+    
+    if (action === Action.SOFT_DROP) {
+      const ghostY = getGhostPosition(board, piece, getCells);
+      if (ghostY > piece.y) {
+        piece = { ...piece, y: ghostY };
+        kickIndex = null;
+      }
+      continue;
+    }
+    
+    const move = MOVES.find(([moveAction]) => moveAction === action);
+    if (move) {
+      piece = { ...piece, x: piece.x + move[1] };
+      kickIndex = null;
+      if (!isValidPosition(board, piece, getCells)) return null;
+      continue;
+    }
+    
+    const rotation = ROTATIONS.find(([rotateAction]) => rotateAction === action);
+    const result = rotation && rotationSystem.rotate(board, piece, rotation[1], kicks180);
+    if (!rotation || !result) return null;
+    
+    piece = result.piece;
+    kickIndex = result.kickIndex;
+    direction = rotation[1];
+  }
+  
+  return land(board, piece, kickIndex, direction, getCells);
+}
+
+function getColumnHeights(board: Board): number[] {
+  return board[0].map((_, x) => {
+    const top = board.findIndex(row => row[x] !== 0);
+    return top < 0 ? 0 : board.length - top;
+  });
+}
+
+function countHoles(board: Board, heights: number[]): number {
+  let holes = 0;
+  heights.forEach((height, x) => {
+    for (let y = board.length - height; y < board.length; y++) {
+      if (board[y][x] === 0) holes++;
+    }
+  });
+  return holes;
+}
+
+function getWellDepth(heights: number[]): number {
+  let deepest = 0;
+  heights.forEach((height, x) => {
+    const left = heights[x - 1] ?? Infinity;
+    const right = heights[x + 1] ?? Infinity;
+    deepest = Math.max(deepest, Math.min(left, right) - height);
+  });
+  return deepest;
+}
+
+// Open slots a T could spin into: the three cells and the one below free, both lower corners
+// filled and at least one upper corner overhanging.
+function countTSpinSlots(board: Board): number {
+  const filled = (x: number, y: number) => y >= board.length || x < 0 || x >= board[0].length || board[y]?.[x] !== 0;
+  let slots = 0;
+  
+  for (let y = 1; y < board.length - 1; y++) {
+    for (let x = 1; x < board[0].length - 1; x++) {
+      if (filled(x - 1, y) || filled(x, y) || filled(x + 1, y) || filled(x, y + 1)) continue;
+      if (!filled(x - 1, y + 1) || !filled(x + 1, y + 1)) continue;
+      if (filled(x - 1, y - 1) || filled(x + 1, y - 1)) slots++;
+    }
+  }
+  return slots;
+}
+
+export function evaluatePlacement(
+  board: Board,
+  placement: Placement,
+  spawnRows: number,
+  getCells: RotationSystem['getCells'],
+  weights: BotWeights = DEFAULT_BOT_WEIGHTS
+): number {
+  const { newBoard, linesCleared } = clearLines(placePiece(board, placement.piece, getCells));
+  const heights = getColumnHeights(newBoard);
+  const bumpiness = heights.slice(1).reduce((sum, height, x) => sum + Math.abs(height - heights[x]), 0);
+  const toppedOut = newBoard.slice(0, spawnRows).some(row => row.some(cell => cell !== 0));
+  
+  return weights.aggregateHeight * heights.reduce((sum, height) => sum + height, 0)
+    + weights.holes * countHoles(newBoard, heights)
+    + weights.bumpiness * bumpiness
+    + weights.wellDepth * Math.min(getWellDepth(heights), 4)
+    + weights.tSpinSlots * countTSpinSlots(newBoard)
+    + weights.lines * linesCleared
+    + (placement.tSpin === TSpin.FULL ? weights.tSpin * linesCleared : 0)
+    - (toppedOut ? TOP_OUT_PENALTY : 0);
+}
+
+// Weighs every placement of the current piece against every placement of the piece hold would give,
+// a batch of steps at a time. Given a target, it looks only for the current piece's shortest path
+// there, and weighs the other placements only if the target cannot be reached.
+export class MoveSearch {
+  private board: Board;
+  private spawnRows: number;
+  private rotationSystem: RotationSystem;
+  private kicks180: Kick180Set;
+  private weights: BotWeights;
+  private options: { piece: Piece; hold: boolean }[] = [];
+  private search: PlacementSearch | null = null;
+  private hold: boolean = false;
+  private scoring: Placement[] = [];
+  private scoreIndex: number = 0;
+  private best: BotMove | null = null;
+  private targetKey: string | null;
+  
+  constructor(
+    state: GameState,
+    rotationSystem: RotationSystem,
+    kicks180: Kick180Set,
+    weights: BotWeights = DEFAULT_BOT_WEIGHTS,
+    targetKey: string | null = null
+  ) {
+    const { currentPiece, board, dimensions } = state;
+    this.board = board;
+    this.spawnRows = dimensions.spawnRows;
+    this.rotationSystem = rotationSystem;
+    this.kicks180 = kicks180;
+    this.weights = weights;
+    this.targetKey = targetKey;
+    if (!currentPiece) return;
+    
+    this.options.push({ piece: currentPiece, hold: false });
+    if (targetKey) return;
+    
+    const holdType: PieceType | undefined = state.holdPiece ?? state.nextQueue[0];
+    if (state.canHold && holdType && holdType !== currentPiece.type) {
+      this.options.push({
+        piece: createSpawnPiece(rotationSystem, holdType, dimensions),
+        hold: true,
+      });
+    }
+  }
+  
+  isDone(): boolean {
+    return this.options.length === 0 && this.search === null && this.scoreIndex >= this.scoring.length;
+  }
+  
+  getBest(): BotMove | null {
+    return this.best;
+  }
+  
+  // Spends up to `steps` expanding search nodes and scoring placements; true once the search is done.
+  step(steps: number): boolean {
+    let remaining = steps;
+    
+    while (remaining > 0 && !this.isDone()) {
+      if (this.scoreIndex < this.scoring.length) {
+        this.score(this.scoring[this.scoreIndex++]);
+        remaining--;
+      } else if (this.search && !this.search.isDone()) {
+        remaining -= this.search.step(remaining);
+        this.takeTarget();
+      } else if (this.search) {
+        this.scoring = this.search.getPlacements();
+        this.scoreIndex = 0;
+        this.search = null;
+      } else {
+        const { piece, hold } = this.options.shift()!;
+        this.search = new PlacementSearch(this.board, piece, this.rotationSystem, this.kicks180);
+        this.hold = hold;
+      }
+    }
+    
+    return this.isDone();
+  }
+  
+  private takeTarget(): void {
+    const placement = this.targetKey ? this.search!.getPlacement(this.targetKey) : undefined;
+    if (!placement) return;
+    
+    const score = evaluatePlacement(this.board, placement, this.spawnRows, this.rotationSystem.getCells, this.weights);
+    this.best = { ...placement, hold: false, score };
+    this.search = null;
+  }
+  
+  private score(placement: Placement): void {
+    const score = evaluatePlacement(this.board, placement, this.spawnRows, this.rotationSystem.getCells, this.weights);
+    if (!this.best || score > this.best.score) {
+      const inputs = this.hold ? [Action.HOLD, ...placement.inputs] : placement.inputs;
+      this.best = { ...placement, inputs, hold: this.hold, score };
+    }
+  }
+}
+
+// Plays a GameEngine through the same action calls as the keyboard, one input per delay. The move is
+// searched for over several updates, and before each input the rest of the plan is checked against
+// where the piece really is, since gravity can carry it off the planned path; a new path is then
+// searched for over the following updates the same way.
+export class BotPlayer {
+  private engine: GameEngine;
+  private input: BotInput;
+  private weights: BotWeights;
+  private search: MoveSearch | null = null;
+  private target: BotMove | null = null;
+  private plan: ActionType[] = [];
+  private timer: number = 0;
+  private softDropping: boolean = false;
+  
+  inputDelay: number = BOT_INPUT_DELAY;
+  searchSteps: number = SEARCH_STEPS_PER_UPDATE;
+  
+  constructor(engine: GameEngine, input: BotInput = engine, weights: BotWeights = DEFAULT_BOT_WEIGHTS) {
+    this.engine = engine;
+    this.input = input;
+    this.weights = weights;
+    engine.on('lock', () => this.reset());
+    engine.on('start', () => this.reset());
+  }
+  
+  private reset(): void {
+    this.search = null;
+    this.target = null;
+    this.plan = [];
+    this.timer = 0;
+    if (this.softDropping) {
+      this.input.handleActionRelease(Action.SOFT_DROP);
+      this.softDropping = false;
+    }
+  }
+  
+  update(dt: number): void {
+    const { state } = this.engine;
+    if (this.engine.status !== GameStatus.PLAYING || !state.currentPiece) return;
+    
+    if (this.softDropping) {
+      if (state.currentPiece.y < this.engine.getGhostY()) return;
+      this.input.handleActionRelease(Action.SOFT_DROP);
+      this.softDropping = false;
+    }
+    
+    this.timer += dt;
+    if ((this.search || !this.target) && !this.think()) return;
+    if (this.timer < this.inputDelay) return;
+    
+    // A piece that has left its path waits for a new one, which the next updates search for.
+    if (!this.isOnPath(state.currentPiece)) {
+      this.search = this.createSearch(placementKey(this.target!, this.engine.getRotationSystem().getCells));
+      return;
+    }
+    this.timer = 0;
+    
+    const action = this.plan.shift() ?? Action.HARD_DROP;
+    this.input.handleAction(action);
+    if (action === Action.SOFT_DROP) {
+      this.softDropping = true;
+    } else if (action !== Action.HARD_DROP) {
+      this.input.handleActionRelease(action);
+    }
+  }
+  
+  private createSearch(targetKey: string | null = null): MoveSearch {
+    const kicks180 = this.engine.getSettings().kicks180 ?? 'modern';
+    return new MoveSearch(this.engine.state, this.engine.getRotationSystem(), kicks180, this.weights, targetKey);
+  }
+  
+  // Advances the search for the current piece; true once it has picked a target and a path to it.
+  private think(): boolean {
+    if (!this.search) {
+      this.search = this.createSearch();
+    }
+    if (!this.search.step(this.searchSteps)) return false;
+    
+    this.target = this.search.getBest();
+    this.plan = this.target ? [...this.target.inputs] : [];
+    this.search = null;
+    return this.target !== null;
+  }
+  
+  private isOnPath(piece: Piece): boolean {
+    if (this.plan[0] === Action.HOLD) return true;
+    
+    const { getCells } = this.engine.getRotationSystem();
+    const kicks180 = this.engine.getSettings().kicks180 ?? 'modern';
+    const landing = followInputs(this.engine.state.board, piece, this.plan, this.engine.getRotationSystem(), kicks180);
+    return landing !== null && placementKey(landing, getCells) === placementKey(this.target!, getCells);
+  }
+}
@@ -3,14 +3,44 @@ export const BOARD_HEIGHT = 20;
 export const SPAWN_ROWS = 4;
 export const TOTAL_HEIGHT = BOARD_HEIGHT + SPAWN_ROWS;
 
+export interface BoardDimensions {
+  width: number;
+  height: number;
+  spawnRows: number;
+}
+
+export const DEFAULT_DIMENSIONS: BoardDimensions = {
+  width: BOARD_WIDTH,
+  height: BOARD_HEIGHT,
+  spawnRows: SPAWN_ROWS,
+};
+
+export const FRAME_DURATION = 1000 / 60;
+export const MAX_GRAVITY = 20;
+export const MAX_START_LEVEL = 20;
+
 export const GRAVITY_TABLE = [
   1000, 793, 618, 473, 355, 262, 190, 135, 94, 64,
   43, 28, 18, 11, 7, 5, 3, 2, 1, 1
 ];
 
+export interface PhaseDelays {
+  lineClear: number;
+  entry: number;
+}
+
+export const DELAY_PRESETS = {
+  guideline: { lineClear: 300, entry: 100 },
+  classic: { lineClear: 330, entry: 170 },
+  instant: { lineClear: 0, entry: 0 },
+} satisfies Record<string, PhaseDelays>;
+
+export type DelayPreset = keyof typeof DELAY_PRESETS;
+
 export const DAS_DELAY = 150;
 export const ARR_DELAY = 50;
 export const LOCK_DELAY = 500;
+export const MAX_LOCK_RESETS = 15;
 export const SOFT_DROP_MULTIPLIER = 20;
 
 export const COLORS = {
@@ -21,13 +51,22 @@ export const COLORS = {
   Z: '#F87171',
   J: '#60A5FA',
   L: '#FB923C',
+  garbage: '#64748B',
   empty: '#0F172A',
   grid: '#1E293B',
   ghost: 'rgba(255, 255, 255, 0.2)',
+  hint: 'rgba(52, 211, 153, 0.45)',
 };
 
+export const GARBAGE_COLOR = 8;
+
 export const PIECE_TYPES = ['I', 'O', 'T', 'S', 'Z', 'J', 'L'] as const;
-export type PieceType = typeof PIECE_TYPES[number];
+export type TetrominoType = typeof PIECE_TYPES[number];
+export type PentominoType =
+  'I5' | 'F' | 'Fm' | 'L5' | 'J5' | 'N' | 'Nm' | 'P' | 'Pm' | 'T5' | 'U' | 'V' | 'W' | 'X' | 'Y' | 'Ym' | 'Z5' | 'S5';
+export type TriominoType = 'I3' | 'L3';
+export type BigTetrominoType = `B${TetrominoType}`;
+export type PieceType = TetrominoType | PentominoType | TriominoType | BigTetrominoType;
 
 export const SCORE_TABLE = {
   1: 100,
@@ -36,4 +75,26 @@ export const SCORE_TABLE = {
   4: 800,
 };
 
+export const TSPIN_SCORE_TABLE = [400, 800, 1200, 1600];
+export const TSPIN_MINI_SCORE_TABLE = [100, 200, 400];
+
+export const PERFECT_CLEAR_SCORE_TABLE = {
+  1: 800,
+  2: 1200,
+  3: 1800,
+  4: 2000,
+};
+export const PERFECT_CLEAR_BACK_TO_BACK_SCORE = 3200;
+
+export const COMBO_BONUS = 50;
+export const BACK_TO_BACK_MULTIPLIER = 1.5;
+
 export const LINES_PER_LEVEL = 10;
+
+export const MARATHON_LINE_GOAL = 150;
+export const SPRINT_LINE_GOAL = 40;
+export const ULTRA_TIME_LIMIT = 120000;
+export const DIG_VISIBLE_ROWS = 10;
+export const SURVIVAL_GARBAGE_INTERVAL = 4000;
+export const SURVIVAL_MESSINESS = 0.3;
+export const REWIND_HISTORY_SIZE = 50;
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from './engine';
+import { Action, EnginePhase, GameStatus } from './types';
+import type { Board } from './types';
+import { FRAME_DURATION, SPAWN_ROWS, DELAY_PRESETS, GARBAGE_COLOR } from './constants';
+
+// An I slid to the left wall rests on the bottom row; the O after it fills the gap and clears that row.
+function createPracticeEngine(): GameEngine {
+  const engine = new GameEngine({
+    mode: 'practice',
+    seed: 1,
+    delays: 'guideline',
+    setup: {
+      name: 'UNDO',
+      board: ['XXXX..XXXX'],
+      queue: ['I', 'O'],
+      goal: {},
+    },
+  });
+  engine.start();
+  return engine;
+}
+
+function countCells(board: Board): number {
+  return board.flat().filter(cell => cell !== 0).length;
+}
+
+function placeI(engine: GameEngine): void {
+  for (let i = 0; i < 3; i++) {
+    engine.handleAction(Action.MOVE_LEFT);
+    engine.handleActionRelease(Action.MOVE_LEFT);
+  }
+  engine.handleAction(Action.HARD_DROP);
+}
+
+function waitForSpawn(engine: GameEngine): void {
+  while (!engine.state.currentPiece) {
+    engine.update(FRAME_DURATION);
+  }
+}
+
+describe('GameEngine undo', () => {
+  it('removes one placement while a piece is falling', () => {
+    const engine = createPracticeEngine();
+    placeI(engine);
+    waitForSpawn(engine);
+    expect(countCells(engine.state.board)).toBe(12);
+    
+    engine.handleAction(Action.UNDO);
+    expect(countCells(engine.state.board)).toBe(8);
+    expect(engine.state.currentPiece?.type).toBe('I');
+  });
+  
+  it('removes one placement during entry delay', () => {
+    const engine = createPracticeEngine();
+    placeI(engine);
+    expect(engine.state.phase).toBe(EnginePhase.ENTRY);
+    
+    engine.handleAction(Action.UNDO);
+    expect(countCells(engine.state.board)).toBe(8);
+    expect(engine.state.currentPiece?.type).toBe('I');
+  });
+  
+  it('removes one placement during a line clear', () => {
+    const engine = createPracticeEngine();
+    placeI(engine);
+    waitForSpawn(engine);
+    engine.handleAction(Action.HARD_DROP);
+    expect(engine.state.phase).toBe(EnginePhase.LINE_CLEAR);
+    
+    engine.handleAction(Action.UNDO);
+    expect(countCells(engine.state.board)).toBe(12);
+    expect(engine.state.currentPiece?.type).toBe('O');
+  });
+  
+  it('redoes an undone placement until a new one is made', () => {
+    const engine = createPracticeEngine();
+    placeI(engine);
+    waitForSpawn(engine);
+    
+    engine.handleAction(Action.UNDO);
+    engine.handleAction(Action.REDO);
+    expect(countCells(engine.state.board)).toBe(12);
+    expect(engine.state.currentPiece?.type).toBe('O');
+    
+    engine.handleAction(Action.UNDO);
+    engine.handleAction(Action.HARD_DROP);
+    engine.handleAction(Action.REDO);
+    expect(engine.state.currentPiece).toBeNull();
+  });
+});
+
+describe('GameEngine 20G', () => {
+  it('lands each piece as it spawns, on any board height', () => {
+    const engine = new GameEngine({
+      mode: 'marathon',
+      seed: 1,
+      startLevel: 20,
+      gravity: 'table',
+      dimensions: { width: 10, height: 40, spawnRows: 4 },
+    });
+    engine.start();
+    expect(engine.state.currentPiece?.y).toBe(engine.getGhostY());
+    
+    engine.handleAction(Action.HARD_DROP);
+    waitForSpawn(engine);
+    expect(engine.state.currentPiece?.y).toBe(engine.getGhostY());
+  });
+});
+
+describe('GameEngine spawn', () => {
+  it('places each rotation system\'s pieces at its own spawn point', () => {
+    const spawns = (['srs', 'ars', 'nes'] as const).map((rotationSystem) => {
+      const engine = new GameEngine({ mode: 'marathon', seed: 1, rotationSystem });
+      engine.start();
+      const { x, y } = engine.state.currentPiece!;
+      return [x, y];
+    });
+    
+    expect(spawns).toEqual([[4, SPAWN_ROWS - 2], [4, SPAWN_ROWS], [5, SPAWN_ROWS]]);
+  });
+});
+
+describe('GameEngine delays', () => {
+  function entryTime(engine: GameEngine): number {
+    engine.start();
+    engine.handleAction(Action.HARD_DROP);
+    const start = engine.state.time;
+    waitForSpawn(engine);
+    return engine.state.time - start;
+  }
+  
+  it('uses the mode\'s delay preset', () => {
+    expect(entryTime(new GameEngine({ mode: 'sprint', seed: 1 }))).toBe(0);
+    const survival = entryTime(new GameEngine({ mode: 'survival', seed: 1 }));
+    expect(survival).toBeGreaterThanOrEqual(DELAY_PRESETS.classic.entry);
+    expect(survival).toBeLessThan(DELAY_PRESETS.classic.entry + FRAME_DURATION * 2);
+  });
+  
+  it('lets an explicit preset override the mode\'s', () => {
+    expect(entryTime(new GameEngine({ mode: 'survival', seed: 1, delays: 'instant' }))).toBe(0);
+  });
+});
+
+describe('GameEngine garbage', () => {
+  // Column 0 is stacked from the floor into the spawn rows, with the top visible row either left open or filled.
+  function createStackedEngine(topRowFilled: boolean): GameEngine {
+    const engine = new GameEngine({ mode: 'marathon', seed: 1 });
+    engine.start();
+    const { board } = engine.state;
+    for (let y = SPAWN_ROWS - 2; y < board.length; y++) {
+      board[y][0] = y === SPAWN_ROWS && !topRowFilled ? 0 : GARBAGE_COLOR;
+    }
+    return engine;
+  }
+  
+  it('keeps playing when a rise lifts no blocks into the spawn rows', () => {
+    const engine = createStackedEngine(false);
+    engine.addGarbage(1);
+    expect(engine.status).toBe(GameStatus.PLAYING);
+  });
+  
+  it('tops out when a rise lifts blocks into the spawn rows', () => {
+    const engine = createStackedEngine(true);
+    engine.addGarbage(1);
+    expect(engine.status).toBe(GameStatus.GAME_OVER);
+  });
+});
+
+describe('GameEngine finesse', () => {
+  // Presses right once and lets the press repeat, as a held key's auto-shift does, then drops the T.
+  function holdRight(repeats: number): GameEngine {
+    const engine = new GameEngine({
+      mode: 'practice',
+      seed: 1,
+      setup: { name: 'FINESSE', board: [], queue: ['T', 'T'], goal: {} },
+    });
+    engine.start();
+    for (let i = 0; i <= repeats; i++) {
+      engine.handleAction(Action.MOVE_RIGHT);
+    }
+    engine.handleActionRelease(Action.MOVE_RIGHT);
+    engine.handleAction(Action.HARD_DROP);
+    return engine;
+  }
+  
+  it('counts a hold that reaches the wall as one input', () => {
+    expect(holdRight(5).state.finesse.faults).toBe(0);
+  });
+  
+  it('counts a hold let go short of the wall as taps', () => {
+    expect(holdRight(2).state.finesse.mistakes).toEqual([{ type: 'T', used: 3, needed: 2 }]);
+  });
+});
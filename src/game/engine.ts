@@ -1,100 +1,469 @@
-import { BOARD_WIDTH, SPAWN_ROWS, LOCK_DELAY, SOFT_DROP_MULTIPLIER } from './constants';
-import type { Piece, GameState } from './types';
+import {
+  DEFAULT_DIMENSIONS,
+  LOCK_DELAY,
+  MAX_LOCK_RESETS,
+  SOFT_DROP_MULTIPLIER,
+  DELAY_PRESETS,
+  FRAME_DURATION,
+  MAX_START_LEVEL,
+  REWIND_HISTORY_SIZE,
+  MAX_GRAVITY,
+} from './constants';
+import type { PhaseDelays, BoardDimensions } from './constants';
+import type {
+  Board,
+  Piece,
+  GameState,
+  EngineOptions,
+  EngineSettings,
+  TSpinType,
+  ClearResult,
+  EnginePhaseType,
+  LockResetPolicy,
+  GameModeId,
+  GameEndReason,
+  GravityCurve,
+  PieceSetName,
+} from './types';
 import type { PieceType } from './constants';
-import { GameStatus, Action } from './types';
-import { createEmptyBoard, isValidPosition, placePiece, clearLines, getGhostPosition } from './board';
-import { getPieceCells, getWallKicks } from './piece';
+import { GameStatus, Action, TSpin, EnginePhase } from './types';
+import { createEmptyBoard, isValidPosition, placePiece, clearLines, getGhostPosition, isBoardEmpty } from './board';
+import { ROTATION_SYSTEMS, createSpawnPiece } from './rotation';
+import { PIECE_SET_ORDER, getPieceSetTypes } from './piece';
+import type { RotationSystem } from './rotation';
 import { Randomizer } from './randomizer';
-import { calculateScore, calculateLevel, getGravity } from './scoring';
+import { GAME_MODE_ORDER, getGameMode } from './modes';
+import type { GameMode } from './modes';
+import { GameEventEmitter } from './events';
+import type { GameEventType, GameEventListener } from './events';
+import {
+  calculateScore,
+  calculateComboBonus,
+  calculatePerfectClearBonus,
+  calculateLevel,
+  getGravity,
+  isDifficultClear,
+} from './scoring';
+import { detectTSpin } from './spin';
+import { createGarbageRows, pushGarbage, isGarbageRow } from './garbage';
+import type { GarbageOptions } from './garbage';
+import { parseBoardGrid, createPuzzleProgress, trackPuzzleClear, isPuzzleSolved } from './puzzle';
+import type { Puzzle } from './puzzle';
+import { PUZZLE_PACK } from './puzzles';
+import { createFinesseProgress, findFinesseInputs, trackFinesse } from './finesse';
+import { SNAPSHOT_VERSION } from './snapshot';
+import type { EngineSnapshot } from './snapshot';
+import { randomSeed, seededRandom } from '../utils/math';
 
 export class GameEngine {
-  private randomizer: Randomizer = new Randomizer();
+  private randomizer!: Randomizer;
+  private fixedSeed: number | null;
+  private settings!: EngineSettings;
+  private delays!: PhaseDelays;
+  private lockReset!: LockResetPolicy;
+  private rotationSystem!: RotationSystem;
+  private dimensions!: BoardDimensions;
+  private pieceSet!: PieceSetName;
+  private puzzle!: Puzzle | null;
+  private gravityCurve!: GravityCurve;
+  private startLevel!: number;
+  private mode!: GameMode;
   private gravityTimer: number = 0;
   private lockTimer: number = 0;
   private isLocking: boolean = false;
+  private lockResets: number = 0;
+  private lowestRow: number = 0;
   private softDropping: boolean = false;
+  private lastKickIndex: number | null = null;
+  private lastRotationDirection: number = 0;
+  private phaseTimer: number = 0;
+  private finesseInputs: number = 0;
+  // Cells moved by each direction held since it was pressed.
+  private finesseMoves: Map<number, number> = new Map();
+  private finesseSpawn: Piece | null = null;
+  private pendingBoard: Board | null = null;
+  private pendingGarbage: number[][] = [];
+  private history: EngineSnapshot[] = [];
+  private historyIndex: number = -1;
+  private events: GameEventEmitter = new GameEventEmitter();
   
   state: GameState;
   status: number = GameStatus.ATTRACT;
   
-  constructor() {
+  constructor(options: EngineOptions = {}) {
+    const { seed, ...settings } = options;
+    this.fixedSeed = seed ?? null;
+    this.configure(settings);
     this.state = this.createInitialState();
   }
   
+  private configure(settings: EngineSettings): void {
+    this.settings = settings;
+    this.mode = getGameMode(settings.mode);
+    
+    const resolved: EngineSettings = { ...this.mode.settings, ...settings };
+    this.delays = DELAY_PRESETS[resolved.delays ?? 'guideline'];
+    this.lockReset = resolved.lockReset ?? 'move';
+    // ARS and NES only define the seven tetrominoes; other sets rotate with their own SRS-style data.
+    this.pieceSet = resolved.pieceSet ?? 'tetromino';
+    this.rotationSystem = ROTATION_SYSTEMS[this.pieceSet === 'tetromino' ? resolved.rotationSystem ?? 'srs' : 'srs'];
+    this.dimensions = resolved.dimensions ?? DEFAULT_DIMENSIONS;
+    // Practice can start from an imported setup; its goal is ignored and the queue continues randomly.
+    this.puzzle = this.mode.id === 'puzzle'
+      ? resolved.puzzle ?? PUZZLE_PACK.puzzles[0]
+      : this.mode.id === 'practice' ? resolved.setup ?? null : null;
+    this.gravityCurve = resolved.gravity ?? 'guideline';
+    this.startLevel = resolved.startLevel ?? 1;
+    this.randomizer = new Randomizer(this.fixedSeed ?? randomSeed(), resolved.randomizer, getPieceSetTypes(this.pieceSet));
+  }
+  
+  setMode(mode: GameModeId): void {
+    this.configure({ ...this.settings, mode });
+    this.state = this.createInitialState();
+    this.status = GameStatus.ATTRACT;
+  }
+  
+  setStartLevel(level: number): void {
+    const startLevel = Math.min(Math.max(level, 1), MAX_START_LEVEL);
+    this.configure({ ...this.settings, startLevel });
+    this.state = this.createInitialState();
+    this.status = GameStatus.ATTRACT;
+  }
+  
+  setPuzzle(puzzle: Puzzle): void {
+    this.configure({ ...this.settings, mode: 'puzzle', puzzle });
+    this.state = this.createInitialState();
+    this.status = GameStatus.ATTRACT;
+  }
+  
+  setPracticeSetup(setup: Puzzle | null): void {
+    this.configure({ ...this.settings, mode: 'practice', setup: setup ?? undefined });
+    this.state = this.createInitialState();
+    this.status = GameStatus.ATTRACT;
+  }
+  
+  setPieceSet(pieceSet: PieceSetName): void {
+    this.configure({ ...this.settings, pieceSet });
+    this.state = this.createInitialState();
+    this.status = GameStatus.ATTRACT;
+  }
+  
+  private cyclePieceSet(): void {
+    const index = PIECE_SET_ORDER.indexOf(this.pieceSet);
+    this.setPieceSet(PIECE_SET_ORDER[(index + 1) % PIECE_SET_ORDER.length]);
+  }
+  
+  private cycleMode(step: number): void {
+    const index = GAME_MODE_ORDER.indexOf(this.mode.id);
+    this.setMode(GAME_MODE_ORDER[(index + step + GAME_MODE_ORDER.length) % GAME_MODE_ORDER.length]);
+  }
+  
   private createInitialState(): GameState {
-    const nextQueue: PieceType[] = [];
-    for (let i = 0; i < 5; i++) {
+    const isPuzzle = this.mode.id === 'puzzle' && this.puzzle !== null;
+    const nextQueue: PieceType[] = [...this.puzzle?.queue ?? []];
+    while (!isPuzzle && nextQueue.length < 5) {
       nextQueue.push(this.randomizer.next());
     }
     
     return {
-      board: createEmptyBoard(),
+      board: this.puzzle ? parseBoardGrid(this.puzzle.board, this.dimensions) : createEmptyBoard(this.dimensions),
+      dimensions: this.dimensions,
       currentPiece: null,
+      phase: EnginePhase.FALLING,
+      phaseProgress: 0,
+      clearingRows: [],
       nextQueue,
-      holdPiece: null,
+      holdPiece: this.puzzle?.hold ?? null,
       canHold: true,
       score: 0,
-      level: 1,
+      level: this.mode.levelUp ? this.startLevel : 1,
       lines: 0,
+      time: 0,
+      garbageSpawned: 0,
+      garbageCleared: 0,
+      garbageHole: -1,
+      mode: this.mode.id,
+      pieceSet: this.pieceSet,
+      puzzle: isPuzzle ? createPuzzleProgress(this.puzzle!) : null,
+      finesse: createFinesseProgress(),
+      endReason: null,
+      lastClear: null,
+      combo: -1,
+      backToBack: false,
       gameOver: false,
       paused: false,
       playing: false,
     };
   }
   
-  start(): void {
-    this.randomizer.reset();
+  start(seed?: number): void {
+    this.randomizer.reset(seed ?? this.fixedSeed ?? randomSeed());
     this.state = this.createInitialState();
+    this.pendingBoard = null;
+    this.pendingGarbage = [];
+    this.history = [];
+    this.historyIndex = -1;
     this.status = GameStatus.PLAYING;
     this.state.playing = true;
-    this.spawnPiece();
+    this.events.emit('start', { seed: this.randomizer.getSeed() });
+    this.mode.onStart?.(this);
+    this.spawnNextPiece();
+  }
+  
+  createSnapshot(): EngineSnapshot {
+    return structuredClone({
+      version: SNAPSHOT_VERSION,
+      settings: this.settings,
+      status: this.status,
+      state: this.state,
+      randomizer: this.randomizer.getSnapshot(),
+      timers: {
+        gravityTimer: this.gravityTimer,
+        lockTimer: this.lockTimer,
+        isLocking: this.isLocking,
+        lockResets: this.lockResets,
+        lowestRow: this.lowestRow,
+        softDropping: this.softDropping,
+        lastKickIndex: this.lastKickIndex,
+        lastRotationDirection: this.lastRotationDirection,
+        phaseTimer: this.phaseTimer,
+        finesseInputs: this.finesseInputs,
+        finesseSpawn: this.finesseSpawn,
+      },
+      pendingBoard: this.pendingBoard,
+      pendingGarbage: this.pendingGarbage,
+    });
+  }
+  
+  // A game restored mid-play comes back paused, with no keys held, so the player can pick up where they left off.
+  restoreSnapshot(snapshot: EngineSnapshot): void {
+    this.applySnapshot(snapshot);
+    this.history = [];
+    this.historyIndex = -1;
+    
+    if (this.status === GameStatus.PLAYING) {
+      this.status = GameStatus.PAUSED;
+      this.state.paused = true;
+      this.softDropping = false;
+    }
+    this.events.emit('restore', {});
+  }
+  
+  private applySnapshot(snapshot: EngineSnapshot): void {
+    const data = structuredClone(snapshot);
+    this.configure(data.settings);
+    this.randomizer.restore(data.randomizer);
+    this.state = data.state;
+    this.status = data.status;
+    this.pendingBoard = data.pendingBoard;
+    this.pendingGarbage = data.pendingGarbage;
+    
+    const timers = data.timers;
+    this.gravityTimer = timers.gravityTimer;
+    this.lockTimer = timers.lockTimer;
+    this.isLocking = timers.isLocking;
+    this.lockResets = timers.lockResets;
+    this.lowestRow = timers.lowestRow;
+    this.softDropping = timers.softDropping;
+    this.lastKickIndex = timers.lastKickIndex;
+    this.lastRotationDirection = timers.lastRotationDirection;
+    this.phaseTimer = timers.phaseTimer;
+    this.finesseInputs = timers.finesseInputs;
+    this.finesseSpawn = timers.finesseSpawn;
+    this.finesseMoves.clear();
+  }
+  
+  private recordHistory(): void {
+    if (!this.mode.rewind) return;
+    
+    this.history.length = this.historyIndex + 1;
+    this.history.push(this.createSnapshot());
+    if (this.history.length > REWIND_HISTORY_SIZE) {
+      this.history.shift();
+    }
+    this.historyIndex = this.history.length - 1;
+  }
+  
+  // States at each earlier spawn, oldest first; the live state follows the last of them.
+  getHistoryStates(): GameState[] {
+    return this.history.slice(0, Math.max(this.historyIndex, 0)).map(snapshot => snapshot.state);
+  }
+  
+  // History holds one snapshot per spawned piece, so stepping back one entry undoes one placement.
+  // Between a lock and the next spawn, or after a top-out, the latest entry is the placement just made,
+  // so undo retries it.
+  private rewind(step: number): void {
+    const placed = this.status === GameStatus.GAME_OVER || !this.state.currentPiece;
+    const target = placed && step < 0
+      ? this.historyIndex
+      : this.historyIndex + step;
+    if (target < 0 || target >= this.history.length) return;
+    
+    const softDropping = this.softDropping;
+    this.applySnapshot(this.history[target]);
+    this.historyIndex = target;
+    this.softDropping = softDropping;
+  }
+  
+  on<K extends GameEventType>(type: K, listener: GameEventListener<K>): () => void {
+    return this.events.on(type, listener);
+  }
+  
+  off<K extends GameEventType>(type: K, listener: GameEventListener<K>): void {
+    this.events.off(type, listener);
   }
   
   pause(): void {
     if (this.status === GameStatus.PLAYING) {
       this.status = GameStatus.PAUSED;
       this.state.paused = true;
+      this.events.emit('pause', {});
     } else if (this.status === GameStatus.PAUSED) {
       this.status = GameStatus.PLAYING;
       this.state.paused = false;
+      this.events.emit('resume', {});
+    }
+  }
+  
+  addGarbage(count: number, options: GarbageOptions = {}): void {
+    if (count <= 0) return;
+    
+    // Seeded per batch from the game seed so garbage never disturbs the piece sequence.
+    const random = seededRandom(this.randomizer.getSeed() ^ Math.imul(this.state.garbageSpawned + 1, 0x9e3779b1));
+    const { rows, hole } = createGarbageRows(count, this.dimensions.width, random, this.state.garbageHole, options);
+    
+    this.state.garbageHole = hole;
+    this.state.garbageSpawned += count;
+    this.pendingGarbage.push(...rows);
+    
+    if (this.state.currentPiece) {
+      this.applyGarbage();
+    }
+  }
+  
+  private applyGarbage(): boolean {
+    if (this.pendingGarbage.length === 0) return true;
+    
+    const count = this.pendingGarbage.length;
+    const { spawnRows } = this.dimensions;
+    // Only blocks the rise lifts out of the visible field top out; ones already above it were allowed there.
+    const raisedIntoBuffer = this.state.board.slice(spawnRows, spawnRows + count).some(row => row.some(cell => cell !== 0));
+    const { newBoard, overflow } = pushGarbage(this.state.board, this.pendingGarbage);
+    this.state.board = newBoard;
+    this.pendingGarbage = [];
+    this.events.emit('garbage', { count });
+    
+    let piece = this.state.currentPiece;
+    while (piece && !this.fits(piece) && piece.y > 0) {
+      piece = { ...piece, y: piece.y - 1 };
     }
+    this.state.currentPiece = piece;
+    
+    if (overflow || raisedIntoBuffer || (piece && !this.fits(piece))) {
+      this.topOut(piece);
+      return false;
+    }
+    
+    return true;
   }
   
   private spawnPiece(): boolean {
-    const type = this.state.nextQueue.shift()!;
-    this.state.nextQueue.push(this.randomizer.next());
+    this.mode.beforeSpawn?.(this);
+    if (!this.applyGarbage()) return false;
     
-    const piece: Piece = {
-      type,
-      x: Math.floor(BOARD_WIDTH / 2) - 1,
-      y: SPAWN_ROWS - 1,
-      rotation: 0,
-    };
+    // A puzzle's queue is fixed; once it and the held piece are used up, the goal decides the result.
+    if (this.state.puzzle && this.state.nextQueue.length === 0) {
+      if (!this.state.holdPiece) {
+        this.finish(isPuzzleSolved(this.state.puzzle) ? 'goal' : 'failed');
+        return false;
+      }
+      this.state.nextQueue.push(this.state.holdPiece);
+      this.state.holdPiece = null;
+    }
     
-    const cells = getPieceCells(type, 0);
-    for (const [dx, dy] of cells) {
-      piece.x = Math.floor(BOARD_WIDTH / 2) - 1 - dx;
-      piece.y = SPAWN_ROWS - 1 - dy;
-      break;
+    const type = this.state.nextQueue.shift()!;
+    if (!this.state.puzzle) {
+      this.state.nextQueue.push(this.randomizer.next());
     }
-    piece.x = Math.floor(BOARD_WIDTH / 2) - 1;
-    piece.y = SPAWN_ROWS - 2;
     
-    if (!isValidPosition(this.state.board, piece)) {
-      this.status = GameStatus.GAME_OVER;
-      this.state.gameOver = true;
+    const piece = createSpawnPiece(this.rotationSystem, type, this.dimensions);
+    
+    if (!this.fits(piece)) {
+      this.topOut(piece);
       return false;
     }
     
     this.state.currentPiece = piece;
     this.state.canHold = true;
+    this.resetPieceTimers(piece);
+    this.events.emit('spawn', { piece: { ...piece } });
+    this.applyInstantGravity();
+    
+    return true;
+  }
+  
+  private resetPieceTimers(piece: Piece): void {
     this.gravityTimer = 0;
     this.lockTimer = 0;
     this.isLocking = false;
+    this.lockResets = 0;
+    this.lowestRow = piece.y;
+    this.lastKickIndex = null;
+    this.finesseInputs = 0;
+    this.finesseMoves.clear();
+    this.finesseSpawn = { ...piece };
+  }
+  
+  private onPieceMoved(piece: Piece): void {
+    if (piece.y > this.lowestRow) {
+      this.lowestRow = piece.y;
+      this.lockResets = 0;
+      
+      if (this.lockReset !== 'none') {
+        this.lockTimer = 0;
+        this.isLocking = false;
+      }
+      return;
+    }
     
+    if (this.lockReset === 'move' && this.isLocking && this.lockResets < MAX_LOCK_RESETS) {
+      this.lockResets++;
+      this.lockTimer = 0;
+    }
+  }
+  
+  private fits(piece: Piece): boolean {
+    return isValidPosition(this.state.board, piece, this.rotationSystem.getCells);
+  }
+  
+  // At 20G a piece is never seen in the air: it lands as it spawns and whenever it moves off a ledge.
+  private applyInstantGravity(): boolean {
+    const piece = this.state.currentPiece;
+    if (!piece || getGravity(this.state.level, this.gravityCurve) < MAX_GRAVITY) return false;
+    
+    const ghostY = this.getGhostY();
+    if (ghostY > piece.y) {
+      this.movePiece(0, ghostY - piece.y);
+    }
     return true;
   }
   
+  private isGrounded(piece: Piece): boolean {
+    return !this.fits({ ...piece, y: piece.y + 1 });
+  }
+  
+  private topOut(piece: Piece | null): void {
+    this.events.emit('topOut', { piece: piece && { ...piece } });
+    this.finish('topOut');
+  }
+  
+  private finish(reason: GameEndReason): void {
+    this.status = GameStatus.GAME_OVER;
+    this.state.gameOver = true;
+    this.state.endReason = reason;
+    this.events.emit('end', { reason });
+  }
+  
   private movePiece(dx: number, dy: number): boolean {
     if (!this.state.currentPiece) return false;
     
@@ -104,53 +473,48 @@ export class GameEngine {
       y: this.state.currentPiece.y + dy,
     };
     
-    if (isValidPosition(this.state.board, newPiece)) {
+    if (this.fits(newPiece)) {
       this.state.currentPiece = newPiece;
-      
-      if (dy > 0) {
-        this.lockTimer = 0;
-        this.isLocking = false;
-      }
-      
+      this.lastKickIndex = null;
+      this.onPieceMoved(newPiece);
+      this.events.emit('move', { piece: { ...newPiece }, dx, dy });
       return true;
     }
     
     return false;
   }
   
-  private rotatePiece(direction: 1 | -1): boolean {
+  private rotatePiece(direction: 1 | -1 | 2): boolean {
     if (!this.state.currentPiece) return false;
     
-    const piece = this.state.currentPiece;
-    const newRotation = (piece.rotation + direction + 4) % 4;
-    const kicks = getWallKicks(piece.type, piece.rotation, newRotation);
-    
-    for (const [kx, ky] of kicks) {
-      const newPiece: Piece = {
-        ...piece,
-        rotation: newRotation,
-        x: piece.x + kx,
-        y: piece.y - ky,
-      };
-      
-      if (isValidPosition(this.state.board, newPiece)) {
-        this.state.currentPiece = newPiece;
-        this.lockTimer = 0;
-        this.isLocking = false;
-        return true;
-      }
-    }
+    const result = this.rotationSystem.rotate(
+      this.state.board,
+      this.state.currentPiece,
+      direction,
+      this.settings.kicks180 ?? 'modern'
+    );
+    if (!result) return false;
     
-    return false;
+    const { piece, kickIndex } = result;
+    this.state.currentPiece = piece;
+    this.onPieceMoved(piece);
+    this.lastKickIndex = kickIndex;
+    this.lastRotationDirection = direction;
+    this.events.emit('rotate', { piece: { ...piece }, direction, kickIndex });
+    return true;
   }
   
   private hardDrop(): void {
     if (!this.state.currentPiece) return;
     
-    const ghostY = getGhostPosition(this.state.board, this.state.currentPiece);
+    const ghostY = this.getGhostY();
     const dropDistance = ghostY - this.state.currentPiece.y;
     this.state.currentPiece.y = ghostY;
     this.state.score += dropDistance * 2;
+    if (dropDistance > 0) {
+      this.lastKickIndex = null;
+    }
+    this.events.emit('hardDrop', { piece: { ...this.state.currentPiece }, distance: dropDistance });
     
     this.lockPiece();
   }
@@ -158,18 +522,181 @@ export class GameEngine {
   private lockPiece(): void {
     if (!this.state.currentPiece) return;
     
-    this.state.board = placePiece(this.state.board, this.state.currentPiece);
+    const piece = this.state.currentPiece;
+    const tSpin: TSpinType = this.lastKickIndex === null
+      ? TSpin.NONE
+      : detectTSpin(
+        this.state.board,
+        piece,
+        this.lastKickIndex,
+        this.lastRotationDirection,
+        this.rotationSystem.getCells
+      );
     
-    const { newBoard, linesCleared } = clearLines(this.state.board);
-    this.state.board = newBoard;
+    // A new placement replaces any that were undone, so redo has nothing left to step to.
+    this.history.length = this.historyIndex + 1;
+    this.checkFinesse(piece);
+    this.state.board = placePiece(this.state.board, piece, this.rotationSystem.getCells);
+    this.state.currentPiece = null;
+    
+    const { newBoard, linesCleared, clearedRows } = clearLines(this.state.board);
+    const placedBoard = this.state.board;
+    this.state.garbageCleared += clearedRows.filter(y => isGarbageRow(placedBoard[y])).length;
+    
+    const difficult = isDifficultClear(linesCleared, tSpin);
+    const backToBack = difficult && this.state.backToBack;
     
     if (linesCleared > 0) {
+      this.state.combo++;
+      this.state.backToBack = difficult;
+    } else {
+      this.state.combo = -1;
+    }
+    
+    const perfectClear = linesCleared > 0 && isBoardEmpty(newBoard);
+    const perfectClearBonus = perfectClear
+      ? calculatePerfectClearBonus(linesCleared, this.state.level, backToBack)
+      : 0;
+    
+    const score = calculateScore(linesCleared, this.state.level, tSpin, backToBack)
+      + calculateComboBonus(this.state.combo, this.state.level)
+      + perfectClearBonus;
+    const clear: ClearResult = {
+      lines: linesCleared,
+      tSpin,
+      combo: Math.max(this.state.combo, 0),
+      backToBack,
+      perfectClear,
+      score,
+    };
+    
+    this.state.score += score;
+    this.state.lastClear = linesCleared > 0 || tSpin !== TSpin.NONE ? clear : null;
+    this.events.emit('lock', { piece: { ...piece }, clear });
+    
+    if (this.state.puzzle) {
+      trackPuzzleClear(this.state.puzzle, clear);
+    }
+    
+    if (linesCleared > 0) {
+      const previousLevel = this.state.level;
       this.state.lines += linesCleared;
-      this.state.score += calculateScore(linesCleared, this.state.level);
-      this.state.level = calculateLevel(this.state.lines);
+      if (this.mode.levelUp) {
+        this.state.level = calculateLevel(this.state.lines, this.startLevel);
+      }
+      this.events.emit('linesCleared', { rows: clearedRows, count: linesCleared });
+      
+      if (perfectClear) {
+        this.events.emit('perfectClear', { lines: linesCleared, bonus: perfectClearBonus });
+      }
+      
+      if (this.state.level > previousLevel) {
+        this.events.emit('levelUp', { level: this.state.level });
+      }
+    }
+    
+    const endReason = this.mode.checkEnd(this.state);
+    if (endReason) {
+      this.state.board = newBoard;
+      this.finish(endReason);
+      return;
+    }
+    
+    if (linesCleared > 0 && this.delays.lineClear > 0) {
+      this.enterPhase(EnginePhase.LINE_CLEAR);
+      this.state.clearingRows = clearedRows;
+      this.pendingBoard = newBoard;
+      return;
+    }
+    
+    this.state.board = newBoard;
+    this.beginEntry();
+  }
+  
+  // Judged before the piece joins the board, from the board it was spawned over. The CPU taps every
+  // move instead of charging DAS, so its placements are not judged.
+  private checkFinesse(piece: Piece): void {
+    for (const action of [...this.finesseMoves.keys()]) {
+      this.settleFinesseMove(action);
+    }
+    if (!this.finesseSpawn || this.mode.bot) return;
+    
+    const needed = findFinesseInputs(
+      this.state.board,
+      this.finesseSpawn,
+      piece,
+      this.rotationSystem,
+      this.settings.kicks180 ?? 'modern'
+    );
+    if (needed === null) return;
+    
+    const used = this.finesseInputs;
+    if (trackFinesse(this.state.finesse, piece.type, used, needed)) {
+      this.events.emit('finesse', { piece: { ...piece }, used, needed });
+    }
+  }
+  
+  private countFinesseInput(): void {
+    if (!this.state.currentPiece) return;
+    this.finesseInputs++;
+  }
+  
+  private trackFinesseMove(action: number, moved: boolean): void {
+    if (!this.state.currentPiece) return;
+    this.finesseMoves.set(action, (this.finesseMoves.get(action) ?? 0) + (moved ? 1 : 0));
+  }
+  
+  // A held direction that charged until the piece was blocked is one DAS input however far it went;
+  // let go short of that, each cell it moved counts as a tap.
+  private settleFinesseMove(action: number): void {
+    const moves = this.finesseMoves.get(action);
+    const piece = this.state.currentPiece;
+    this.finesseMoves.delete(action);
+    if (moves === undefined || !piece) return;
+    
+    const dx = action === Action.MOVE_LEFT ? -1 : 1;
+    const charged = !this.fits({ ...piece, x: piece.x + dx });
+    this.finesseInputs += charged ? 1 : Math.max(moves, 1);
+  }
+  
+  private enterPhase(phase: EnginePhaseType): void {
+    this.state.phase = phase;
+    this.state.phaseProgress = 0;
+    this.phaseTimer = 0;
+  }
+  
+  private beginEntry(): void {
+    if (this.delays.entry > 0) {
+      this.enterPhase(EnginePhase.ENTRY);
+      return;
+    }
+    
+    this.enterPhase(EnginePhase.FALLING);
+    this.spawnNextPiece();
+  }
+  
+  private spawnNextPiece(): void {
+    if (this.spawnPiece()) {
+      this.recordHistory();
     }
+  }
+  
+  private updatePhase(dt: number): void {
+    const duration = this.state.phase === EnginePhase.LINE_CLEAR ? this.delays.lineClear : this.delays.entry;
+    this.phaseTimer += dt;
+    this.state.phaseProgress = Math.min(this.phaseTimer / duration, 1);
     
-    this.spawnPiece();
+    if (this.phaseTimer < duration) return;
+    
+    if (this.state.phase === EnginePhase.LINE_CLEAR) {
+      this.state.board = this.pendingBoard ?? this.state.board;
+      this.state.clearingRows = [];
+      this.pendingBoard = null;
+      this.beginEntry();
+    } else {
+      this.enterPhase(EnginePhase.FALLING);
+      this.spawnNextPiece();
+    }
   }
   
   private holdPiece(): void {
@@ -181,22 +708,20 @@ export class GameEngine {
       const heldType = this.state.holdPiece;
       this.state.holdPiece = currentType;
       
-      const piece: Piece = {
-        type: heldType,
-        x: Math.floor(BOARD_WIDTH / 2) - 1,
-        y: SPAWN_ROWS - 2,
-        rotation: 0,
-      };
+      const piece = createSpawnPiece(this.rotationSystem, heldType, this.dimensions);
       
-      if (!isValidPosition(this.state.board, piece)) {
-        this.status = GameStatus.GAME_OVER;
-        this.state.gameOver = true;
+      if (!this.fits(piece)) {
+        this.topOut(piece);
         return;
       }
       
       this.state.currentPiece = piece;
+      this.resetPieceTimers(piece);
+      this.events.emit('hold', { held: currentType, current: heldType });
+      this.applyInstantGravity();
     } else {
       this.state.holdPiece = currentType;
+      this.events.emit('hold', { held: currentType, current: null });
       this.spawnPiece();
     }
     
@@ -204,16 +729,23 @@ export class GameEngine {
   }
   
   handleAction(action: number): void {
-    if (this.status === GameStatus.ATTRACT) {
-      if (action === Action.START_PAUSE) {
-        this.start();
-      }
-      return;
-    }
-    
-    if (this.status === GameStatus.GAME_OVER) {
+    if (this.status === GameStatus.ATTRACT || this.status === GameStatus.GAME_OVER) {
       if (action === Action.START_PAUSE || action === Action.RESTART) {
         this.start();
+      } else if (action === Action.MOVE_LEFT) {
+        this.cycleMode(-1);
+      } else if (action === Action.MOVE_RIGHT) {
+        this.cycleMode(1);
+      } else if (action === Action.UNDO && this.status === GameStatus.GAME_OVER && this.mode.rewind) {
+        this.rewind(-1);
+      } else if (action === Action.ROTATE_CCW && this.status === GameStatus.ATTRACT) {
+        this.cyclePieceSet();
+      } else if (this.status === GameStatus.ATTRACT && this.mode.levelUp) {
+        if (action === Action.ROTATE_CW) {
+          this.setStartLevel(this.startLevel + 1);
+        } else if (action === Action.SOFT_DROP) {
+          this.setStartLevel(this.startLevel - 1);
+        }
       }
       return;
     }
@@ -227,10 +759,10 @@ export class GameEngine {
     
     switch (action) {
       case Action.MOVE_LEFT:
-        this.movePiece(-1, 0);
+        this.trackFinesseMove(action, this.movePiece(-1, 0));
         break;
       case Action.MOVE_RIGHT:
-        this.movePiece(1, 0);
+        this.trackFinesseMove(action, this.movePiece(1, 0));
         break;
       case Action.SOFT_DROP:
         this.softDropping = true;
@@ -239,11 +771,17 @@ export class GameEngine {
         this.hardDrop();
         break;
       case Action.ROTATE_CW:
+        this.countFinesseInput();
         this.rotatePiece(1);
         break;
       case Action.ROTATE_CCW:
+        this.countFinesseInput();
         this.rotatePiece(-1);
         break;
+      case Action.ROTATE_180:
+        this.countFinesseInput();
+        this.rotatePiece(2);
+        break;
       case Action.HOLD:
         this.holdPiece();
         break;
@@ -253,6 +791,12 @@ export class GameEngine {
       case Action.RESTART:
         this.start();
         break;
+      case Action.UNDO:
+        if (this.mode.rewind) this.rewind(-1);
+        break;
+      case Action.REDO:
+        if (this.mode.rewind) this.rewind(1);
+        break;
     }
   }
   
@@ -260,41 +804,81 @@ export class GameEngine {
     if (action === Action.SOFT_DROP) {
       this.softDropping = false;
     }
+    this.settleFinesseMove(action);
   }
   
   update(dt: number): void {
     if (this.status !== GameStatus.PLAYING) return;
+    
+    this.state.time += dt;
+    if (this.mode.timeLimit !== undefined && this.state.time >= this.mode.timeLimit) {
+      this.state.time = this.mode.timeLimit;
+    }
+    
+    this.mode.onUpdate?.(this);
+    if (this.status !== GameStatus.PLAYING) return;
+    
+    const endReason = this.mode.checkEnd(this.state);
+    if (endReason) {
+      this.finish(endReason);
+      return;
+    }
+    
+    if (this.state.phase !== EnginePhase.FALLING) {
+      this.updatePhase(dt);
+      return;
+    }
+    
     if (!this.state.currentPiece) return;
     
-    const gravity = getGravity(this.state.level);
-    const effectiveGravity = this.softDropping ? gravity / SOFT_DROP_MULTIPLIER : gravity;
+    if (!this.applyInstantGravity()) {
+      this.applyGravity(dt);
+    }
     
-    this.gravityTimer += dt;
+    if (!this.isGrounded(this.state.currentPiece)) return;
     
-    if (this.gravityTimer >= effectiveGravity) {
-      this.gravityTimer = 0;
-      
-      if (!this.movePiece(0, 1)) {
-        if (!this.isLocking) {
-          this.isLocking = true;
-          this.lockTimer = 0;
-        }
-      } else if (this.softDropping) {
-        this.state.score += 1;
-      }
+    this.isLocking = true;
+    this.lockTimer += dt;
+    
+    if (this.lockTimer >= LOCK_DELAY || this.lockResets >= MAX_LOCK_RESETS) {
+      this.lockPiece();
     }
+  }
+  
+  private applyGravity(dt: number): void {
+    const gravity = getGravity(this.state.level, this.gravityCurve);
+    const effectiveGravity = this.softDropping ? gravity * SOFT_DROP_MULTIPLIER : gravity;
     
-    if (this.isLocking) {
-      this.lockTimer += dt;
+    // gravityTimer holds the fraction of a cell carried over between ticks.
+    this.gravityTimer += effectiveGravity * dt / FRAME_DURATION;
+    
+    while (this.gravityTimer >= 1) {
+      if (!this.movePiece(0, 1)) {
+        this.gravityTimer = 0;
+        break;
+      }
       
-      if (this.lockTimer >= LOCK_DELAY) {
-        this.lockPiece();
+      this.gravityTimer -= 1;
+      if (this.softDropping) {
+        this.state.score += 1;
       }
     }
   }
   
+  getSeed(): number {
+    return this.randomizer.getSeed();
+  }
+  
+  getSettings(): EngineSettings {
+    return { ...this.settings };
+  }
+  
+  getRotationSystem(): RotationSystem {
+    return this.rotationSystem;
+  }
+  
   getGhostY(): number {
     if (!this.state.currentPiece) return 0;
-    return getGhostPosition(this.state.board, this.state.currentPiece);
+    return getGhostPosition(this.state.board, this.state.currentPiece, this.rotationSystem.getCells);
   }
 }
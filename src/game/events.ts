@@ -0,0 +1,53 @@
+import type { Piece, PieceType, ClearResult, GameEndReason } from './types';
+
+export interface GameEventMap {
+  start: { seed: number };
+  spawn: { piece: Piece };
+  move: { piece: Piece; dx: number; dy: number };
+  rotate: { piece: Piece; direction: number; kickIndex: number };
+  hardDrop: { piece: Piece; distance: number };
+  hold: { held: PieceType; current: PieceType | null };
+  lock: { piece: Piece; clear: ClearResult };
+  finesse: { piece: Piece; used: number; needed: number };
+  linesCleared: { rows: number[]; count: number };
+  perfectClear: { lines: number; bonus: number };
+  levelUp: { level: number };
+  topOut: { piece: Piece | null };
+  garbage: { count: number };
+  end: { reason: GameEndReason };
+  pause: Record<string, never>;
+  resume: Record<string, never>;
+  restore: Record<string, never>;
+}
+
+export type GameEventType = keyof GameEventMap;
+export type GameEventListener<K extends GameEventType> = (event: GameEventMap[K]) => void;
+
+type ListenerMap = { [K in GameEventType]?: Set<GameEventListener<K>> };
+
+export class GameEventEmitter {
+  private listeners: ListenerMap = {};
+  
+  on<K extends GameEventType>(type: K, listener: GameEventListener<K>): () => void {
+    let set = this.listeners[type] as Set<GameEventListener<K>> | undefined;
+    if (!set) {
+      set = new Set();
+      (this.listeners as Record<K, Set<GameEventListener<K>>>)[type] = set;
+    }
+    set.add(listener);
+    return () => this.off(type, listener);
+  }
+  
+  off<K extends GameEventType>(type: K, listener: GameEventListener<K>): void {
+    this.listeners[type]?.delete(listener);
+  }
+  
+  emit<K extends GameEventType>(type: K, event: GameEventMap[K]): void {
+    const set = this.listeners[type] as Set<GameEventListener<K>> | undefined;
+    if (!set) return;
+    
+    for (const listener of set) {
+      listener(event);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import type { PieceType } from './constants';
+import type { Board, Piece, Kick180Set } from './types';
+import { isValidPosition, getGhostPosition, cellsKey } from './board';
+import type { RotationSystem } from './rotation';
+
+export interface FinesseMistake {
+  type: PieceType;
+  used: number;
+  needed: number;
+}
+
+export interface FinesseProgress {
+  pieces: number;
+  faults: number;
+  mistakes: FinesseMistake[];
+}
+
+const MAX_MISTAKES = 50;
+const ROTATIONS = [1, -1, 2];
+
+export function createFinesseProgress(): FinesseProgress {
+  return {
+    pieces: 0,
+    faults: 0,
+    mistakes: [],
+  };
+}
+
+// Fewest presses from spawn that hard drop into the same cells as the target, counting each tap,
+// each DAS charge to a wall and each rotation as one. Null when the target needs a soft drop or tuck.
+export function findFinesseInputs(
+  board: Board,
+  spawn: Piece,
+  target: Piece,
+  rotationSystem: RotationSystem,
+  kicks180: Kick180Set
+): number | null {
+  const { getCells } = rotationSystem;
+  const targetKey = cellsKey(target, getCells);
+  
+  const visited = new Set([`${spawn.x},${spawn.y},${spawn.rotation}`]);
+  let frontier = [spawn];
+  
+  for (let inputs = 0; frontier.length > 0; inputs++) {
+    const next: Piece[] = [];
+    
+    for (const piece of frontier) {
+      const dropped = { ...piece, y: getGhostPosition(board, piece, getCells) };
+      if (cellsKey(dropped, getCells) === targetKey) return inputs;
+      
+      const candidates: Piece[] = [];
+      for (const dx of [-1, 1]) {
+        const tapped = { ...piece, x: piece.x + dx };
+        if (!isValidPosition(board, tapped, getCells)) continue;
+        
+        candidates.push(tapped);
+        let charged = tapped;
+        while (isValidPosition(board, { ...charged, x: charged.x + dx }, getCells)) {
+          charged = { ...charged, x: charged.x + dx };
+        }
+        candidates.push(charged);
+      }
+      for (const direction of ROTATIONS) {
+        const result = rotationSystem.rotate(board, piece, direction, kicks180);
+        if (result) candidates.push(result.piece);
+      }
+      
+      for (const candidate of candidates) {
+        const key = `${candidate.x},${candidate.y},${candidate.rotation}`;
+        if (visited.has(key)) continue;
+        visited.add(key);
+        next.push(candidate);
+      }
+    }
+    
+    frontier = next;
+  }
+  
+  return null;
+}
+
+export function trackFinesse(progress: FinesseProgress, type: PieceType, used: number, needed: number): boolean {
+  progress.pieces++;
+  if (used <= needed) return false;
+  
+  progress.faults++;
+  progress.mistakes.push({ type, used, needed });
+  if (progress.mistakes.length > MAX_MISTAKES) {
+    progress.mistakes.shift();
+  }
+  return true;
+}
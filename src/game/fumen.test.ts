@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { encodeFumen, decodeFumen } from './fumen';
+import type { FumenPage } from './fumen';
+import { parseBoardGrid, formatBoardGrid } from './puzzle';
+import { DEFAULT_DIMENSIONS } from './constants';
+
+describe('fumen', () => {
+  it('decodes a shared link and encodes it back unchanged', () => {
+    const text = 'v115@9gF8DeF8DeF8DeF8NeAgH';
+    const pages = decodeFumen(text);
+    
+    expect(pages).toHaveLength(1);
+    expect(formatBoardGrid(pages[0].board)).toEqual([
+      'XXXXXX....',
+      'XXXXXX....',
+      'XXXXXX....',
+      'XXXXXX....',
+    ]);
+    expect(encodeFumen(pages)).toBe(text);
+  });
+  
+  it('round-trips a board with piece colours and a quiz queue', () => {
+    const page: FumenPage = {
+      board: parseBoardGrid(['I.....ZZ..', 'IOO..JZZ.L', 'IOOTJJJLLL'], DEFAULT_DIMENSIONS),
+      hold: 'T',
+      current: 'S',
+      queue: ['I', 'O', 'L'],
+      comment: '',
+    };
+    const [decoded] = decodeFumen(encodeFumen([page]));
+    
+    expect(formatBoardGrid(decoded.board)).toEqual(formatBoardGrid(page.board));
+    expect(decoded.hold).toBe('T');
+    expect(decoded.current).toBe('S');
+    expect(decoded.queue).toEqual(['I', 'O', 'L']);
+  });
+  
+  it('rejects text without a v115 link', () => {
+    expect(() => decodeFumen('v110@vhAAgH')).toThrow();
+  });
+});
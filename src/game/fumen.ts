@@ -0,0 +1,447 @@
+import { DEFAULT_DIMENSIONS, GARBAGE_COLOR } from './constants';
+import type { PieceType, TetrominoType } from './constants';
+import type { Board, GameState } from './types';
+import { createEmptyBoard } from './board';
+import { getPieceColor } from './piece';
+import { formatBoardGrid } from './puzzle';
+import type { Puzzle, PuzzleGoal } from './puzzle';
+
+export interface FumenPage {
+  board: Board;
+  hold: PieceType | null;
+  current: PieceType | null;
+  queue: PieceType[];
+  comment: string;
+}
+
+interface FumenAction {
+  type: number;
+  rotation: number;
+  location: number;
+  rise: boolean;
+  mirror: boolean;
+  comment: boolean;
+  lock: boolean;
+}
+
+const FUMEN_PREFIX = 'v115@';
+const ENCODE_TABLE = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const COMMENT_TABLE = ' !"#$%&\'()*+,-./0123456789:;<=>?@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_`abcdefghijklmnopqrstuvwxyz{|}~';
+const COMMENT_BASE = COMMENT_TABLE.length + 1;
+const MAX_COMMENT_LENGTH = 4095;
+
+// Fumen fields are 10 wide with 23 rows above a hidden garbage row, stored top row first.
+const FIELD_WIDTH = 10;
+const FIELD_TOP = 23;
+const FIELD_BLOCKS = FIELD_WIDTH * (FIELD_TOP + 1);
+const EMPTY_DIFF = 8;
+
+// Fumen numbers pieces in its own order and uses 8 for garbage; colours map through piece names.
+const FUMEN_PIECES: readonly (TetrominoType | null)[] = [null, 'I', 'L', 'O', 'Z', 'T', 'J', 'S'];
+const FUMEN_GARBAGE = 8;
+
+// Spawn shapes around fumen's SRS centres, with y pointing up.
+const FUMEN_SHAPES: Record<string, [number, number][]> = {
+  I: [[0, 0], [-1, 0], [1, 0], [2, 0]],
+  L: [[0, 0], [-1, 0], [1, 0], [1, 1]],
+  O: [[0, 0], [1, 0], [0, 1], [1, 1]],
+  Z: [[0, 0], [1, 0], [0, 1], [-1, 1]],
+  T: [[0, 0], [-1, 0], [1, 0], [0, 1]],
+  J: [[0, 0], [-1, 0], [1, 0], [-1, 1]],
+  S: [[0, 0], [-1, 0], [0, 1], [1, 1]],
+};
+
+// Rotations are stored as 0 reverse, 1 right, 2 spawn, 3 left. Some pieces are stored
+// from an older centre, so their locations are shifted onto the SRS one.
+const CENTRE_OFFSETS: Record<string, [number, number]> = {
+  O0: [1, 0], O2: [0, -1], O3: [1, -1],
+  I0: [1, 0], I3: [0, -1],
+  S1: [-1, 0], S2: [0, -1],
+  Z2: [0, -1], Z3: [1, 0],
+};
+
+const QUIZ_PATTERN = /^#Q=\[([IOTLJSZ]?)\]\(([IOTLJSZ]?)\)([IOTLJSZ]*)$/;
+
+class FumenReader {
+  private data: string;
+  private index = 0;
+  
+  constructor(data: string) {
+    this.data = data;
+  }
+  
+  isEmpty(): boolean {
+    return this.index >= this.data.length;
+  }
+  
+  poll(digits: number): number {
+    let value = 0;
+    for (let i = 0; i < digits; i++) {
+      const digit = ENCODE_TABLE.indexOf(this.data[this.index++] ?? '');
+      if (digit < 0) {
+        throw new Error('Malformed fumen data');
+      }
+      value += digit * ENCODE_TABLE.length ** i;
+    }
+    return value;
+  }
+}
+
+function pushValue(values: number[], value: number, digits: number): void {
+  for (let i = 0; i < digits; i++) {
+    values.push(value % ENCODE_TABLE.length);
+    value = Math.floor(value / ENCODE_TABLE.length);
+  }
+}
+
+function toFumenCode(color: number): number {
+  if (color === 0) return 0;
+  
+  const code = FUMEN_PIECES.findIndex(type => type !== null && getPieceColor(type) === color);
+  return code > 0 ? code : FUMEN_GARBAGE;
+}
+
+function fromFumenCode(code: number): number {
+  if (code === 0) return 0;
+  return code === FUMEN_GARBAGE ? GARBAGE_COLOR : getPieceColor(FUMEN_PIECES[code]!);
+}
+
+function createEmptyField(): number[] {
+  return new Array(FIELD_BLOCKS).fill(0);
+}
+
+// Boards line up with the field at the bottom; rows above the field's 23 are dropped.
+function boardToField(board: Board): number[] {
+  if (board[0]?.length !== FIELD_WIDTH) {
+    throw new Error(`Fumen boards are ${FIELD_WIDTH} cells wide`);
+  }
+  
+  const field = createEmptyField();
+  for (let row = 0; row < FIELD_TOP; row++) {
+    const boardRow = board[board.length - FIELD_TOP + row];
+    if (!boardRow) continue;
+    
+    for (let x = 0; x < FIELD_WIDTH; x++) {
+      field[row * FIELD_WIDTH + x] = toFumenCode(boardRow[x]);
+    }
+  }
+  return field;
+}
+
+function fieldToBoard(field: number[]): Board {
+  const board = createEmptyBoard(DEFAULT_DIMENSIONS);
+  for (let row = 0; row < FIELD_TOP; row++) {
+    const boardRow = board[board.length - FIELD_TOP + row];
+    if (!boardRow) continue;
+    
+    for (let x = 0; x < FIELD_WIDTH; x++) {
+      boardRow[x] = fromFumenCode(field[row * FIELD_WIDTH + x]);
+    }
+  }
+  return board;
+}
+
+function clearFieldLines(field: number[]): number[] {
+  const rows: number[][] = [];
+  for (let row = 0; row < FIELD_TOP; row++) {
+    const cells = field.slice(row * FIELD_WIDTH, (row + 1) * FIELD_WIDTH);
+    if (cells.some(cell => cell === 0)) {
+      rows.push(cells);
+    }
+  }
+  
+  const cleared = FIELD_TOP - rows.length;
+  return [
+    ...new Array(cleared * FIELD_WIDTH).fill(0),
+    ...rows.flat(),
+    ...field.slice(FIELD_TOP * FIELD_WIDTH),
+  ];
+}
+
+// Rising pushes the hidden garbage row into the bottom of the field.
+function riseField(field: number[]): number[] {
+  return [
+    ...field.slice(FIELD_WIDTH, FIELD_BLOCKS),
+    ...new Array(FIELD_WIDTH).fill(0),
+  ];
+}
+
+function mirrorField(field: number[]): number[] {
+  const mirrored = [...field];
+  for (let row = 0; row < FIELD_TOP; row++) {
+    for (let x = 0; x < FIELD_WIDTH; x++) {
+      mirrored[row * FIELD_WIDTH + x] = field[row * FIELD_WIDTH + FIELD_WIDTH - 1 - x];
+    }
+  }
+  return mirrored;
+}
+
+function rotateCell([x, y]: [number, number], rotation: number): [number, number] {
+  switch (rotation) {
+    case 0: return [-x, -y];
+    case 1: return [y, -x];
+    case 3: return [-y, x];
+    default: return [x, y];
+  }
+}
+
+function fillPiece(field: number[], action: FumenAction): void {
+  const type = FUMEN_PIECES[action.type]!;
+  const [dx, dy] = CENTRE_OFFSETS[`${type}${action.rotation}`] ?? [0, 0];
+  const centreX = action.location % FIELD_WIDTH + dx;
+  const centreY = FIELD_TOP - Math.floor(action.location / FIELD_WIDTH) - 1 + dy;
+  
+  for (const cell of FUMEN_SHAPES[type]) {
+    const [x, y] = rotateCell(cell, action.rotation);
+    const row = FIELD_TOP - 1 - (centreY + y);
+    const column = centreX + x;
+    if (row < 0 || row > FIELD_TOP || column < 0 || column >= FIELD_WIDTH) {
+      throw new Error('Fumen piece lies outside the field');
+    }
+    field[row * FIELD_WIDTH + column] = action.type;
+  }
+}
+
+// Fields are stored as runs of the per-cell difference from the previous page.
+function encodeField(previous: number[], field: number[], values: number[]): boolean {
+  let changed = false;
+  let runDiff = field[0] - previous[0] + EMPTY_DIFF;
+  let runLength = 0;
+  
+  for (let i = 1; i < FIELD_BLOCKS; i++) {
+    const diff = field[i] - previous[i] + EMPTY_DIFF;
+    if (diff === runDiff) {
+      runLength++;
+      continue;
+    }
+    pushValue(values, runDiff * FIELD_BLOCKS + runLength, 2);
+    runDiff = diff;
+    runLength = 0;
+    changed = true;
+  }
+  pushValue(values, runDiff * FIELD_BLOCKS + runLength, 2);
+  
+  return changed || runDiff !== EMPTY_DIFF;
+}
+
+function decodeField(reader: FumenReader, previous: number[]): { field: number[]; changed: boolean } {
+  const field = [...previous];
+  let changed = true;
+  let index = 0;
+  
+  while (index < FIELD_BLOCKS) {
+    const value = reader.poll(2);
+    const diff = Math.floor(value / FIELD_BLOCKS) - EMPTY_DIFF;
+    const runLength = value % FIELD_BLOCKS + 1;
+    if (diff === 0 && runLength === FIELD_BLOCKS) {
+      changed = false;
+    }
+    
+    for (let i = 0; i < runLength && index < FIELD_BLOCKS; i++, index++) {
+      field[index] += diff;
+    }
+  }
+  
+  return { field, changed };
+}
+
+function decodeAction(value: number): FumenAction {
+  const type = value % 8;
+  value = Math.floor(value / 8);
+  const rotation = value % 4;
+  value = Math.floor(value / 4);
+  const location = value % FIELD_BLOCKS;
+  value = Math.floor(value / FIELD_BLOCKS);
+  
+  return {
+    type,
+    rotation,
+    location,
+    rise: (value & 1) !== 0,
+    mirror: (value & 2) !== 0,
+    comment: (value & 8) !== 0,
+    lock: (value & 16) === 0,
+  };
+}
+
+// Pages never carry a piece of their own; the current piece, hold and queue travel in a quiz comment.
+function encodeEmptyAction(comment: boolean, colorize: boolean): number {
+  const flags = (comment ? 8 : 0) + (colorize ? 4 : 0);
+  return flags * FIELD_BLOCKS * 4 * 8;
+}
+
+function encodeComment(comment: string, values: number[]): void {
+  const escaped = escape(comment).slice(0, MAX_COMMENT_LENGTH);
+  pushValue(values, escaped.length, 2);
+  
+  for (let i = 0; i < escaped.length; i += 4) {
+    let value = 0;
+    for (let j = 0; j < 4 && i + j < escaped.length; j++) {
+      value += COMMENT_TABLE.indexOf(escaped[i + j]) * COMMENT_BASE ** j;
+    }
+    pushValue(values, value, 5);
+  }
+}
+
+function decodeComment(reader: FumenReader): string {
+  const length = reader.poll(2);
+  let escaped = '';
+  
+  for (let i = 0; i < length; i += 4) {
+    let value = reader.poll(5);
+    for (let j = 0; j < 4; j++) {
+      escaped += COMMENT_TABLE[value % COMMENT_BASE] ?? '';
+      value = Math.floor(value / COMMENT_BASE);
+    }
+  }
+  
+  return unescape(escaped.slice(0, length));
+}
+
+function formatQuiz(page: FumenPage): string {
+  const pieces = [page.hold, page.current, ...page.queue].filter(type => type !== null);
+  if (pieces.length === 0) return page.comment;
+  
+  if (pieces.some(type => !FUMEN_SHAPES[type])) {
+    throw new Error('Fumen can only describe tetrominoes');
+  }
+  return `#Q=[${page.hold ?? ''}](${page.current ?? ''})${page.queue.join('')}`;
+}
+
+function parseQuiz(comment: string): Pick<FumenPage, 'hold' | 'current' | 'queue'> {
+  const match = QUIZ_PATTERN.exec(comment);
+  if (!match) {
+    return { hold: null, current: null, queue: [] };
+  }
+  
+  return {
+    hold: (match[1] || null) as TetrominoType | null,
+    current: (match[2] || null) as TetrominoType | null,
+    queue: [...match[3]] as TetrominoType[],
+  };
+}
+
+// Placing a piece in a quiz uses the current piece, or swaps through hold to reach the one placed.
+function advanceQuiz(quiz: Pick<FumenPage, 'hold' | 'current' | 'queue'>, type: PieceType): Pick<FumenPage, 'hold' | 'current' | 'queue'> {
+  const queue = [...quiz.queue];
+  
+  if (quiz.current === type) {
+    return { hold: quiz.hold, current: queue.shift() ?? null, queue };
+  }
+  if (quiz.hold === type) {
+    return { hold: quiz.current, current: queue.shift() ?? null, queue };
+  }
+  if (quiz.hold === null && queue[0] === type) {
+    queue.shift();
+    return { hold: quiz.current, current: queue.shift() ?? null, queue };
+  }
+  
+  return quiz;
+}
+
+export function encodeFumen(pages: FumenPage[]): string {
+  const values: number[] = [];
+  let previousField = createEmptyField();
+  let previousComment = '';
+  let repeatIndex = -1;
+  
+  pages.forEach((page, index) => {
+    const field = boardToField(page.board);
+    const fieldValues: number[] = [];
+    
+    // Unchanged fields are followed by a count of how many later pages repeat them.
+    if (encodeField(previousField, field, fieldValues)) {
+      values.push(...fieldValues);
+      repeatIndex = -1;
+    } else if (repeatIndex < 0 || values[repeatIndex] === ENCODE_TABLE.length - 1) {
+      values.push(...fieldValues, 0);
+      repeatIndex = values.length - 1;
+    } else {
+      values[repeatIndex]++;
+    }
+    
+    const comment = formatQuiz(page);
+    const hasComment = comment !== previousComment;
+    pushValue(values, encodeEmptyAction(hasComment, index === 0), 3);
+    if (hasComment) {
+      encodeComment(comment, values);
+      previousComment = comment;
+    }
+    
+    previousField = clearFieldLines(field);
+  });
+  
+  // Long strings are broken with '?' the way fumen links are, which decoders skip.
+  const data = values.map(value => ENCODE_TABLE[value]).join('');
+  const chunks = data.length < 41 ? [data] : [data.slice(0, 42), ...(data.slice(42).match(/.{1,47}/g) ?? [])];
+  return FUMEN_PREFIX + chunks.join('?');
+}
+
+export function decodeFumen(text: string): FumenPage[] {
+  const match = /v115@([A-Za-z0-9+/?]+)/.exec(text);
+  if (!match) {
+    throw new Error('Not a v115 fumen');
+  }
+  
+  const reader = new FumenReader(match[1].replace(/\?/g, ''));
+  const pages: FumenPage[] = [];
+  let field = createEmptyField();
+  let repeat = 0;
+  let comment = '';
+  let quiz = parseQuiz(comment);
+  
+  while (!reader.isEmpty()) {
+    if (repeat > 0) {
+      repeat--;
+    } else {
+      const decoded = decodeField(reader, field);
+      field = decoded.field;
+      if (!decoded.changed) {
+        repeat = reader.poll(1);
+      }
+    }
+    
+    const action = decodeAction(reader.poll(3));
+    if (action.comment) {
+      comment = decodeComment(reader);
+      quiz = parseQuiz(comment);
+    }
+    
+    // A page's own piece is only drawn over it; the board is the field the piece is placed into.
+    pages.push({ board: fieldToBoard(field), ...quiz, queue: [...quiz.queue], comment });
+    
+    if (action.lock) {
+      field = [...field];
+      if (action.type > 0 && action.type < FUMEN_GARBAGE) {
+        fillPiece(field, action);
+        quiz = advanceQuiz(quiz, FUMEN_PIECES[action.type]!);
+      }
+      field = clearFieldLines(field);
+      if (action.rise) field = riseField(field);
+      if (action.mirror) field = mirrorField(field);
+    }
+  }
+  
+  return pages;
+}
+
+export function createFumenPage(state: GameState): FumenPage {
+  return {
+    board: state.board,
+    hold: state.holdPiece,
+    current: state.currentPiece?.type ?? null,
+    queue: [...state.nextQueue],
+    comment: '',
+  };
+}
+
+// Shared setups are most often perfect clear studies, so that is the goal unless one is given.
+export function fumenPageToPuzzle(page: FumenPage, name: string, goal: PuzzleGoal = { perfectClear: true }): Puzzle {
+  return {
+    name,
+    board: formatBoardGrid(page.board),
+    queue: [page.current, ...page.queue].filter(type => type !== null),
+    hold: page.hold,
+    goal,
+  };
+}
@@ -0,0 +1,45 @@
+import { GARBAGE_COLOR } from './constants';
+import type { Board } from './types';
+
+export interface GarbageOptions {
+  holeColumn?: number;
+  messiness?: number;
+}
+
+// Messiness is the chance that each row after the first moves its hole.
+export function createGarbageRows(
+  count: number,
+  width: number,
+  random: () => number,
+  previousHole: number,
+  options: GarbageOptions = {}
+): { rows: number[][]; hole: number } {
+  const messiness = options.messiness ?? 0;
+  const rows: number[][] = [];
+  let hole = options.holeColumn ?? previousHole;
+  
+  for (let i = 0; i < count; i++) {
+    const moveHole = options.holeColumn === undefined && (hole < 0 || random() < messiness);
+    if (moveHole) {
+      hole = Math.floor(random() * width);
+    }
+    
+    const row: number[] = Array(width).fill(GARBAGE_COLOR);
+    row[hole] = 0;
+    rows.push(row);
+  }
+  
+  return { rows, hole };
+}
+
+export function pushGarbage(board: Board, rows: number[][]): { newBoard: Board; overflow: boolean } {
+  const removed = board.slice(0, rows.length);
+  const overflow = removed.some(row => row.some(cell => cell !== 0));
+  const newBoard = [...board.slice(rows.length).map(row => [...row]), ...rows.map(row => [...row])];
+  
+  return { newBoard, overflow };
+}
+
+export function isGarbageRow(row: number[]): boolean {
+  return row.includes(GARBAGE_COLOR);
+}
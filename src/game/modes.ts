@@ -0,0 +1,148 @@
+import {
+  MARATHON_LINE_GOAL,
+  SPRINT_LINE_GOAL,
+  ULTRA_TIME_LIMIT,
+  DIG_VISIBLE_ROWS,
+  SURVIVAL_GARBAGE_INTERVAL,
+  SURVIVAL_MESSINESS,
+} from './constants';
+import type { EngineSettings, GameModeId, GameState, GameEndReason } from './types';
+import type { GameEngine } from './engine';
+
+export type HudField = 'score' | 'level' | 'lines' | 'time' | 'garbage';
+
+export interface GameMode {
+  id: GameModeId;
+  name: string;
+  settings: EngineSettings;
+  hud: HudField[];
+  result: 'score' | 'time';
+  levelUp: boolean;
+  rewind?: boolean;
+  bot?: boolean;
+  // Ranked modes keep play unassisted, so placement hints are hidden.
+  ranked?: boolean;
+  lineGoal?: number;
+  garbageGoal?: number;
+  timeLimit?: number;
+  checkEnd(state: GameState): GameEndReason | null;
+  onStart?(engine: GameEngine): void;
+  onUpdate?(engine: GameEngine): void;
+  beforeSpawn?(engine: GameEngine): void;
+}
+
+function createDigMode(id: GameModeId, name: string, goal: number): GameMode {
+  // Keep the stack topped up to DIG_VISIBLE_ROWS until every row of the goal has been dealt.
+  const refill = (engine: GameEngine) => {
+    const { garbageSpawned, garbageCleared } = engine.state;
+    const onBoard = garbageSpawned - garbageCleared;
+    const count = Math.min(DIG_VISIBLE_ROWS - onBoard, goal - garbageSpawned);
+    if (count > 0) {
+      engine.addGarbage(count, { messiness: 1 });
+    }
+  };
+  
+  return {
+    id,
+    name,
+    settings: { delays: 'instant' },
+    hud: ['time', 'garbage'],
+    result: 'time',
+    levelUp: false,
+    ranked: true,
+    garbageGoal: goal,
+    checkEnd: (state) => state.garbageCleared >= goal ? 'goal' : null,
+    onStart: refill,
+    beforeSpawn: refill,
+  };
+}
+
+// Races against the clock and practice drop the clear and entry delays; survival keeps the classic pacing.
+export const GAME_MODES: Record<GameModeId, GameMode> = {
+  marathon: {
+    id: 'marathon',
+    name: 'MARATHON',
+    settings: { delays: 'guideline' },
+    hud: ['score', 'level', 'lines'],
+    result: 'score',
+    levelUp: true,
+    ranked: true,
+    lineGoal: MARATHON_LINE_GOAL,
+    checkEnd: (state) => state.lines >= MARATHON_LINE_GOAL ? 'goal' : null,
+  },
+  sprint: {
+    id: 'sprint',
+    name: 'SPRINT 40L',
+    settings: { delays: 'instant' },
+    hud: ['time', 'lines'],
+    result: 'time',
+    levelUp: false,
+    ranked: true,
+    lineGoal: SPRINT_LINE_GOAL,
+    checkEnd: (state) => state.lines >= SPRINT_LINE_GOAL ? 'goal' : null,
+  },
+  ultra: {
+    id: 'ultra',
+    name: 'ULTRA 2MIN',
+    settings: { delays: 'guideline' },
+    hud: ['score', 'time', 'lines'],
+    result: 'score',
+    levelUp: false,
+    ranked: true,
+    timeLimit: ULTRA_TIME_LIMIT,
+    checkEnd: (state) => state.time >= ULTRA_TIME_LIMIT ? 'timeUp' : null,
+  },
+  dig10: createDigMode('dig10', 'DIG 10', 10),
+  dig100: createDigMode('dig100', 'DIG 100', 100),
+  survival: {
+    id: 'survival',
+    name: 'SURVIVAL',
+    settings: { delays: 'classic' },
+    hud: ['time', 'lines', 'score'],
+    result: 'time',
+    levelUp: true,
+    ranked: true,
+    checkEnd: () => null,
+    onUpdate: (engine) => {
+      const due = Math.floor(engine.state.time / SURVIVAL_GARBAGE_INTERVAL);
+      if (due > engine.state.garbageSpawned) {
+        engine.addGarbage(due - engine.state.garbageSpawned, { messiness: SURVIVAL_MESSINESS });
+      }
+    },
+  },
+  practice: {
+    id: 'practice',
+    name: 'PRACTICE',
+    settings: { delays: 'instant' },
+    hud: ['score', 'lines'],
+    result: 'score',
+    levelUp: false,
+    rewind: true,
+    checkEnd: () => null,
+  },
+  puzzle: {
+    id: 'puzzle',
+    name: 'PUZZLE',
+    settings: { delays: 'guideline' },
+    hud: ['score', 'lines'],
+    result: 'score',
+    levelUp: false,
+    checkEnd: () => null,
+  },
+  cpu: {
+    id: 'cpu',
+    name: 'WATCH CPU',
+    settings: { delays: 'guideline' },
+    hud: ['score', 'level', 'lines'],
+    result: 'score',
+    levelUp: true,
+    bot: true,
+    checkEnd: () => null,
+  },
+};
+
+export const GAME_MODE_ORDER: GameModeId[] = ['marathon', 'sprint', 'ultra', 'dig10', 'dig100', 'survival', 'practice', 'puzzle', 'cpu'];
+
+export function getGameMode(id: GameModeId | undefined): GameMode {
+  return GAME_MODES[id ?? 'marathon'];
+}
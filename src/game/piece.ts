@@ -1,13 +1,44 @@
-import type { PieceType } from './constants';
+import type { PieceType, TetrominoType, PentominoType, TriominoType, BigTetrominoType } from './constants';
+import { PIECE_TYPES } from './constants';
+import type { Kick180Set, PieceSetName } from './types';
 
 type Position = [number, number];
 
-interface PieceDefinition {
+export type KickTableName = 'jlstz' | 'i' | 'none';
+
+export interface PieceDefinition {
   rotations: Position[][];
   color: number;
+  kicks: KickTableName;
+  kickScale?: number;
+}
+
+export interface PieceSet {
+  name: string;
+  pieces: Partial<Record<PieceType, PieceDefinition>>;
+}
+
+// Builds the four rotation states by turning the spawn cells about the origin.
+function withRotations(cells: Position[], color: number, kicks: KickTableName = 'jlstz'): PieceDefinition {
+  const rotations = [cells];
+  for (let i = 1; i < 4; i++) {
+    rotations.push(rotations[i - 1].map(([x, y]): Position => [y, -x]));
+  }
+  return { rotations, color, kicks };
+}
+
+// Each cell becomes a 2x2 block, as in big mode, and kicks move in whole blocks.
+function enlarge(definition: PieceDefinition): PieceDefinition {
+  return {
+    ...definition,
+    kickScale: 2,
+    rotations: definition.rotations.map(cells => cells.flatMap(([x, y]): Position[] => [
+      [x * 2, y * 2], [x * 2 + 1, y * 2], [x * 2, y * 2 + 1], [x * 2 + 1, y * 2 + 1],
+    ])),
+  };
 }
 
-const PIECE_DEFINITIONS: Record<PieceType, PieceDefinition> = {
+const TETROMINOES: Record<TetrominoType, PieceDefinition> = {
   I: {
     rotations: [
       [[0, 0], [-1, 0], [1, 0], [2, 0]],
@@ -16,6 +47,7 @@ const PIECE_DEFINITIONS: Record<PieceType, PieceDefinition> = {
       [[0, -1], [0, 0], [0, 1], [0, 2]],
     ],
     color: 1,
+    kicks: 'i',
   },
   O: {
     rotations: [
@@ -25,6 +57,7 @@ const PIECE_DEFINITIONS: Record<PieceType, PieceDefinition> = {
       [[0, 0], [1, 0], [0, 1], [1, 1]],
     ],
     color: 2,
+    kicks: 'none',
   },
   T: {
     rotations: [
@@ -34,6 +67,7 @@ const PIECE_DEFINITIONS: Record<PieceType, PieceDefinition> = {
       [[0, 0], [0, -1], [0, 1], [-1, 0]],
     ],
     color: 3,
+    kicks: 'jlstz',
   },
   S: {
     rotations: [
@@ -43,6 +77,7 @@ const PIECE_DEFINITIONS: Record<PieceType, PieceDefinition> = {
       [[0, 0], [0, -1], [-1, 0], [-1, 1]],
     ],
     color: 4,
+    kicks: 'jlstz',
   },
   Z: {
     rotations: [
@@ -52,6 +87,7 @@ const PIECE_DEFINITIONS: Record<PieceType, PieceDefinition> = {
       [[0, 0], [0, -1], [-1, 0], [-1, 1]],
     ],
     color: 5,
+    kicks: 'jlstz',
   },
   J: {
     rotations: [
@@ -61,6 +97,7 @@ const PIECE_DEFINITIONS: Record<PieceType, PieceDefinition> = {
       [[0, 0], [0, -1], [0, 1], [-1, -1]],
     ],
     color: 6,
+    kicks: 'jlstz',
   },
   L: {
     rotations: [
@@ -70,15 +107,69 @@ const PIECE_DEFINITIONS: Record<PieceType, PieceDefinition> = {
       [[0, 0], [0, -1], [0, 1], [-1, 1]],
     ],
     color: 7,
+    kicks: 'jlstz',
   },
 };
 
+const PENTOMINOES: Record<PentominoType, PieceDefinition> = {
+  I5: withRotations([[-2, 0], [-1, 0], [0, 0], [1, 0], [2, 0]], 1, 'i'),
+  F: withRotations([[0, -1], [1, -1], [-1, 0], [0, 0], [0, 1]], 2),
+  Fm: withRotations([[-1, -1], [0, -1], [0, 0], [1, 0], [0, 1]], 3),
+  L5: withRotations([[-2, 0], [-1, 0], [0, 0], [1, 0], [1, 1]], 7),
+  J5: withRotations([[-2, 0], [-1, 0], [0, 0], [1, 0], [-2, 1]], 6),
+  N: withRotations([[-2, 0], [-1, 0], [0, 0], [0, 1], [1, 1]], 4),
+  Nm: withRotations([[0, 0], [1, 0], [2, 0], [-1, 1], [0, 1]], 5),
+  P: withRotations([[-1, 0], [0, 0], [1, 0], [0, 1], [1, 1]], 2),
+  Pm: withRotations([[-1, 0], [0, 0], [1, 0], [-1, 1], [0, 1]], 3),
+  T5: withRotations([[-1, 0], [0, 0], [1, 0], [0, 1], [0, 2]], 3),
+  U: withRotations([[-1, -1], [1, -1], [-1, 0], [0, 0], [1, 0]], 2),
+  V: withRotations([[-1, -1], [-1, 0], [-1, 1], [0, 1], [1, 1]], 1),
+  W: withRotations([[-1, -1], [-1, 0], [0, 0], [0, 1], [1, 1]], 4),
+  X: withRotations([[0, -1], [-1, 0], [0, 0], [1, 0], [0, 1]], 5),
+  Y: withRotations([[-2, 0], [-1, 0], [0, 0], [1, 0], [0, 1]], 6),
+  Ym: withRotations([[-1, 0], [0, 0], [1, 0], [2, 0], [0, 1]], 7),
+  Z5: withRotations([[-1, -1], [0, -1], [0, 0], [0, 1], [1, 1]], 5),
+  S5: withRotations([[1, -1], [0, -1], [0, 0], [0, 1], [-1, 1]], 4),
+};
+
+const TRIOMINOES: Record<TriominoType, PieceDefinition> = {
+  I3: withRotations([[-1, 0], [0, 0], [1, 0]], 1, 'i'),
+  L3: withRotations([[0, 0], [1, 0], [0, 1]], 7),
+};
+
+const BIG_TETROMINOES = Object.fromEntries(
+  PIECE_TYPES.map(type => [`B${type}`, enlarge(TETROMINOES[type])])
+) as Record<BigTetrominoType, PieceDefinition>;
+
+export const PIECE_SETS: Record<PieceSetName, PieceSet> = {
+  tetromino: { name: 'TETROMINO', pieces: TETROMINOES },
+  pentomino: { name: 'PENTOMINO', pieces: PENTOMINOES },
+  triomino: { name: 'TRIOMINO', pieces: TRIOMINOES },
+  big: { name: 'BIG', pieces: BIG_TETROMINOES },
+};
+
+export const PIECE_SET_ORDER: PieceSetName[] = ['tetromino', 'pentomino', 'triomino', 'big'];
+
+// Piece ids are unique across sets, so any piece can be looked up without knowing its set.
+const PIECE_DEFINITIONS: Record<PieceType, PieceDefinition> = Object.assign(
+  {},
+  ...PIECE_SET_ORDER.map(name => PIECE_SETS[name].pieces)
+);
+
+export function isPieceType(type: string): type is PieceType {
+  return Object.hasOwn(PIECE_DEFINITIONS, type);
+}
+
+export function getPieceSetTypes(name: PieceSetName): PieceType[] {
+  return Object.keys(PIECE_SETS[name].pieces) as PieceType[];
+}
+
 export function getPieceCells(type: PieceType, rotation: number): Position[] {
   return PIECE_DEFINITIONS[type].rotations[rotation % 4];
 }
 
 export function getPieceColor(type: PieceType): number {
-  return PIECE_DEFINITIONS[type].color;
+  return PIECE_DEFINITIONS[type]?.color ?? 0;
 }
 
 interface KickTable {
@@ -107,14 +198,41 @@ const KICK_TABLE_I: KickTable = {
   '0->3': [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
 };
 
-export function getWallKicks(type: PieceType, fromRotation: number, toRotation: number): Position[] {
-  if (type === 'O') {
+const KICK_TABLE_180: KickTable = {
+  '0->2': [[0, 0], [0, 1], [1, 1], [-1, 1], [1, 0], [-1, 0]],
+  '2->0': [[0, 0], [0, -1], [-1, -1], [1, -1], [-1, 0], [1, 0]],
+  '1->3': [[0, 0], [1, 0], [1, 2], [1, 1], [0, 2], [0, 1]],
+  '3->1': [[0, 0], [-1, 0], [-1, 2], [-1, 1], [0, 2], [0, 1]],
+};
+
+export function getWallKicks(
+  type: PieceType,
+  fromRotation: number,
+  toRotation: number,
+  kicks180: Kick180Set = 'modern'
+): Position[] {
+  const { kicks, kickScale = 1 } = PIECE_DEFINITIONS[type];
+  const offsets = getKickOffsets(kicks, fromRotation, toRotation, kicks180);
+  return kickScale === 1 ? offsets : offsets.map(([x, y]): Position => [x * kickScale, y * kickScale]);
+}
+
+function getKickOffsets(
+  kicks: KickTableName,
+  fromRotation: number,
+  toRotation: number,
+  kicks180: Kick180Set
+): Position[] {
+  if (kicks === 'none') {
     return [[0, 0]];
   }
   
   const key = `${fromRotation}->${toRotation}`;
   
-  if (type === 'I') {
+  if (Math.abs(fromRotation - toRotation) === 2) {
+    return kicks180 === 'modern' ? KICK_TABLE_180[key] : [[0, 0]];
+  }
+  
+  if (kicks === 'i') {
     return KICK_TABLE_I[key] || [[0, 0]];
   }
   
@@ -0,0 +1,152 @@
+import { GARBAGE_COLOR, DEFAULT_DIMENSIONS, PIECE_TYPES, SPAWN_ROWS } from './constants';
+import type { BoardDimensions, PieceType } from './constants';
+import type { Board, ClearResult } from './types';
+import { TSpin } from './types';
+import { createEmptyBoard, getVisibleBoard } from './board';
+import { getPieceColor, isPieceType } from './piece';
+
+export interface PuzzleGoal {
+  lines?: number;
+  tSpin?: { lines: number; count?: number };
+  perfectClear?: boolean;
+}
+
+export interface Puzzle {
+  name: string;
+  // Text rows for the bottom of the playfield: '.' is empty, 'X' is garbage and a piece letter is that piece's colour.
+  board: string[];
+  queue: PieceType[];
+  hold?: PieceType | null;
+  goal: PuzzleGoal;
+}
+
+export interface PuzzlePack {
+  name: string;
+  puzzles: Puzzle[];
+}
+
+export interface PuzzleProgress {
+  name: string;
+  goal: PuzzleGoal;
+  lines: number;
+  tSpins: number[];
+  perfectClear: boolean;
+}
+
+const EMPTY_CELLS = new Set(['.', '_', ' ']);
+const GARBAGE_CELLS = new Set(['X', '#', 'G']);
+
+export function parseBoardGrid(rows: string[], dimensions: BoardDimensions): Board {
+  if (rows.length > dimensions.height) {
+    throw new Error(`Puzzle board has ${rows.length} rows, more than the ${dimensions.height} visible`);
+  }
+  
+  const board = createEmptyBoard(dimensions);
+  const top = board.length - rows.length;
+  
+  rows.forEach((row, i) => {
+    if (row.length > dimensions.width) {
+      throw new Error(`Puzzle row "${row}" is wider than ${dimensions.width} cells`);
+    }
+    
+    for (let x = 0; x < row.length; x++) {
+      const cell = row[x];
+      if (EMPTY_CELLS.has(cell)) continue;
+      
+      if (GARBAGE_CELLS.has(cell)) {
+        board[top + i][x] = GARBAGE_COLOR;
+      } else if (isPieceType(cell)) {
+        board[top + i][x] = getPieceColor(cell);
+      } else {
+        throw new Error(`Unknown puzzle cell "${cell}"`);
+      }
+    }
+  });
+  
+  return board;
+}
+
+function formatCell(color: number): string {
+  if (color === 0) return '.';
+  return PIECE_TYPES.find(type => getPieceColor(type) === color) ?? 'X';
+}
+
+// The inverse of parseBoardGrid: visible rows from the highest filled one down.
+export function formatBoardGrid(board: Board, spawnRows: number = SPAWN_ROWS): string[] {
+  const rows = getVisibleBoard(board, spawnRows).map(row => row.map(formatCell).join(''));
+  const top = rows.findIndex(row => /[^.]/.test(row));
+  return top < 0 ? [] : rows.slice(top);
+}
+
+export function createPuzzleProgress(puzzle: Puzzle): PuzzleProgress {
+  return {
+    name: puzzle.name,
+    goal: puzzle.goal,
+    lines: 0,
+    tSpins: [0, 0, 0, 0],
+    perfectClear: false,
+  };
+}
+
+export function trackPuzzleClear(progress: PuzzleProgress, clear: ClearResult): void {
+  progress.lines += clear.lines;
+  if (clear.tSpin === TSpin.FULL && clear.lines > 0) {
+    progress.tSpins[clear.lines]++;
+  }
+  if (clear.perfectClear) {
+    progress.perfectClear = true;
+  }
+}
+
+export function isPuzzleSolved(progress: PuzzleProgress): boolean {
+  const { goal } = progress;
+  
+  if (goal.lines !== undefined && progress.lines < goal.lines) return false;
+  if (goal.tSpin && (progress.tSpins[goal.tSpin.lines] ?? 0) < (goal.tSpin.count ?? 1)) return false;
+  if (goal.perfectClear && !progress.perfectClear) return false;
+  
+  return true;
+}
+
+export function describePuzzleGoal(goal: PuzzleGoal): string[] {
+  const parts: string[] = [];
+  
+  if (goal.tSpin) {
+    const name = ['T-SPIN', 'TSS', 'TSD', 'TST'][goal.tSpin.lines] ?? 'T-SPIN';
+    parts.push((goal.tSpin.count ?? 1) > 1 ? `${name} x${goal.tSpin.count}` : name);
+  }
+  if (goal.perfectClear) {
+    parts.push('PERFECT CLEAR');
+  }
+  if (goal.lines !== undefined) {
+    parts.push(`${goal.lines} LINES`);
+  }
+  
+  return parts;
+}
+
+function isValidPuzzle(data: unknown): data is Puzzle {
+  const puzzle = data as Puzzle;
+  return typeof puzzle?.name === 'string'
+    && Array.isArray(puzzle.board) && puzzle.board.every(row => typeof row === 'string')
+    && Array.isArray(puzzle.queue) && puzzle.queue.length > 0 && puzzle.queue.every(isPieceType)
+    && (puzzle.hold === undefined || puzzle.hold === null || isPieceType(puzzle.hold))
+    && typeof puzzle.goal === 'object' && puzzle.goal !== null;
+}
+
+export function parsePuzzlePack(json: string): PuzzlePack {
+  const data = JSON.parse(json);
+  
+  if (!Array.isArray(data?.puzzles) || !data.puzzles.every(isValidPuzzle)) {
+    throw new Error('Malformed puzzle pack');
+  }
+  
+  for (const puzzle of data.puzzles) {
+    parseBoardGrid(puzzle.board, DEFAULT_DIMENSIONS);
+  }
+  
+  return {
+    name: typeof data.name === 'string' ? data.name : 'IMPORTED',
+    puzzles: data.puzzles,
+  };
+}
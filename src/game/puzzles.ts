@@ -0,0 +1,50 @@
+import type { PuzzlePack } from './puzzle';
+
+export const PUZZLE_PACK: PuzzlePack = {
+  name: 'STUDY PACK',
+  puzzles: [
+    {
+      name: 'FIRST TSD',
+      board: [
+        '...X......',
+        'XXX...XXXX',
+        'XXXX.XXXXX',
+      ],
+      queue: ['T'],
+      goal: { tSpin: { lines: 2 } },
+    },
+    {
+      name: 'WELL PC',
+      board: [
+        'XXXXXXXXX.',
+        'XXXXXXXXX.',
+        'XXXXXXXXX.',
+        'XXXXXXXXX.',
+      ],
+      queue: ['I'],
+      goal: { perfectClear: true },
+    },
+    {
+      name: 'HOLD PC',
+      board: [
+        'XXXXXX....',
+        'XXXXXX....',
+      ],
+      queue: ['O'],
+      hold: 'O',
+      goal: { perfectClear: true },
+    },
+    {
+      name: 'DOUBLE + TSD',
+      board: [
+        '...X......',
+        'XXX...XXX.',
+        'XXXX.XXXX.',
+        'XXXXXXXXX.',
+        'XXXXXXXXX.',
+      ],
+      queue: ['I', 'T'],
+      goal: { lines: 4, tSpin: { lines: 2 } },
+    },
+  ],
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { Randomizer } from './randomizer';
+import { PIECE_TYPES } from './constants';
+import type { PieceType } from './constants';
+import type { RandomizerName } from './types';
+
+function deal(randomizer: Randomizer, count: number): PieceType[] {
+  return Array.from({ length: count }, () => randomizer.next());
+}
+
+const NAMES: RandomizerName[] = ['bag7', 'bag14', 'random', 'nes', 'tgm1', 'tgm2'];
+
+describe('Randomizer', () => {
+  it.each(NAMES)('deals the same %s sequence from the same seed', (name) => {
+    expect(deal(new Randomizer(42, name), 50)).toEqual(deal(new Randomizer(42, name), 50));
+    expect(deal(new Randomizer(42, name), 50)).not.toEqual(deal(new Randomizer(43, name), 50));
+  });
+  
+  it('deals every piece once per seven-bag', () => {
+    const pieces = deal(new Randomizer(7), 70);
+    
+    for (let i = 0; i < pieces.length; i += 7) {
+      expect([...pieces.slice(i, i + 7)].sort()).toEqual([...PIECE_TYPES].sort());
+    }
+  });
+  
+  it('never opens a TGM game with S, Z or O', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      expect(['S', 'Z', 'O']).not.toContain(new Randomizer(seed, 'tgm1').next());
+    }
+  });
+  
+  it.each(NAMES)('carries on the same %s sequence after a restore', (name) => {
+    const original = new Randomizer(9, name);
+    deal(original, 13);
+    
+    const restored = new Randomizer(1, name);
+    restored.restore(original.getSnapshot());
+    expect(deal(restored, 30)).toEqual(deal(original, 30));
+  });
+  
+  it.each(NAMES)('peeks at the %s pieces it goes on to deal', (name) => {
+    const randomizer = new Randomizer(11, name);
+    deal(randomizer, 3);
+    const upcoming = randomizer.peek(10);
+    
+    expect(randomizer.peek(4)).toEqual(upcoming.slice(0, 4));
+    expect(deal(randomizer, 10)).toEqual(upcoming);
+    expect(deal(randomizer, 20)).toEqual(deal(new Randomizer(11, name), 33).slice(13));
+  });
+  
+  it('keeps peeked pieces across a restore', () => {
+    const original = new Randomizer(4, 'tgm1');
+    const upcoming = original.peek(5);
+    
+    const restored = new Randomizer(1, 'tgm1');
+    restored.restore(original.getSnapshot());
+    expect(deal(restored, 12)).toEqual(deal(original, 12));
+    expect(upcoming).toEqual(deal(new Randomizer(4, 'tgm1'), 5));
+  });
+  
+  it('starts the sequence over on reset', () => {
+    const randomizer = new Randomizer(5, 'tgm2');
+    const first = deal(randomizer, 20);
+    randomizer.reset();
+    expect(deal(randomizer, 20)).toEqual(first);
+  });
+});
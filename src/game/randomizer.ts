@@ -1,44 +1,190 @@
 import type { PieceType } from './constants';
 import { PIECE_TYPES } from './constants';
+import type { RandomizerName } from './types';
+import { seededRandom } from '../utils/math';
 
-export class Randomizer {
+export interface RandomizerStrategy {
+  next(random: () => number): PieceType;
+}
+
+function pick(random: () => number, types: readonly PieceType[]): PieceType {
+  return types[Math.floor(random() * types.length)];
+}
+
+export class BagStrategy implements RandomizerStrategy {
+  private copies: number;
+  private types: readonly PieceType[];
   private bag: PieceType[] = [];
   
-  private fillBag(): void {
-    this.bag = [...PIECE_TYPES];
-    for (let i = this.bag.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [this.bag[i], this.bag[j]] = [this.bag[j], this.bag[i]];
-    }
+  constructor(copies: number, types: readonly PieceType[] = PIECE_TYPES) {
+    this.copies = copies;
+    this.types = types;
   }
   
-  next(): PieceType {
+  next(random: () => number): PieceType {
     if (this.bag.length === 0) {
-      this.fillBag();
+      for (let i = 0; i < this.copies; i++) {
+        this.bag.push(...this.types);
+      }
+      for (let i = this.bag.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [this.bag[i], this.bag[j]] = [this.bag[j], this.bag[i]];
+      }
     }
     return this.bag.pop()!;
   }
+}
+
+export class UniformStrategy implements RandomizerStrategy {
+  private types: readonly PieceType[];
   
-  peek(count: number): PieceType[] {
-    const result: PieceType[] = [];
-    const tempBag = [...this.bag];
+  constructor(types: readonly PieceType[] = PIECE_TYPES) {
+    this.types = types;
+  }
+  
+  next(random: () => number): PieceType {
+    return pick(random, this.types);
+  }
+}
+
+// Rolls one of eight values; the spare value or a repeat of the last piece rerolls once.
+export class NesStrategy implements RandomizerStrategy {
+  private types: readonly PieceType[];
+  private last: PieceType | null = null;
+  
+  constructor(types: readonly PieceType[] = PIECE_TYPES) {
+    this.types = types;
+  }
+  
+  next(random: () => number): PieceType {
+    const roll = Math.floor(random() * (this.types.length + 1));
+    let piece: PieceType | undefined = this.types[roll];
+    
+    if (!piece || piece === this.last) {
+      piece = pick(random, this.types);
+    }
+    
+    this.last = piece;
+    return piece;
+  }
+}
+
+// Draws up to a fixed number of tries in all, keeping the first piece that is not among the
+// last four dealt, or the last try if every one is.
+export class HistoryStrategy implements RandomizerStrategy {
+  private tries: number;
+  private types: readonly PieceType[];
+  private history: PieceType[];
+  private first: boolean = true;
+  
+  constructor(tries: number, history: PieceType[], types: readonly PieceType[] = PIECE_TYPES) {
+    this.tries = tries;
+    this.types = types;
+    this.history = [...history];
+  }
+  
+  next(random: () => number): PieceType {
+    let piece = pick(random, this.types);
     
-    while (result.length < count) {
-      if (tempBag.length === 0) {
-        const newPieces = [...PIECE_TYPES];
-        for (let i = newPieces.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
-          [newPieces[i], newPieces[j]] = [newPieces[j], newPieces[i]];
-        }
-        tempBag.push(...newPieces);
+    if (this.first) {
+      this.first = false;
+      while (piece === 'S' || piece === 'Z' || piece === 'O') {
+        piece = pick(random, this.types);
+      }
+    } else {
+      for (let i = 1; i < this.tries && this.history.includes(piece); i++) {
+        piece = pick(random, this.types);
       }
-      result.push(tempBag.pop()!);
     }
     
-    return result;
+    this.history.shift();
+    this.history.push(piece);
+    return piece;
+  }
+}
+
+export function createRandomizerStrategy(
+  name: RandomizerName,
+  types: readonly PieceType[] = PIECE_TYPES
+): RandomizerStrategy {
+  switch (name) {
+    case 'bag14':
+      return new BagStrategy(2, types);
+    case 'random':
+      return new UniformStrategy(types);
+    case 'nes':
+      return new NesStrategy(types);
+    case 'tgm1':
+      return new HistoryStrategy(4, ['Z', 'Z', 'Z', 'Z'], types);
+    case 'tgm2':
+      return new HistoryStrategy(6, ['Z', 'S', 'S', 'Z'], types);
+    default:
+      return new BagStrategy(1, types);
+  }
+}
+
+export interface RandomizerSnapshot {
+  seed: number;
+  generated: number;
+  queue: PieceType[];
+}
+
+export class Randomizer {
+  private queue: PieceType[] = [];
+  private generated: number = 0;
+  private random: () => number;
+  private seed: number;
+  private name: RandomizerName;
+  private types: readonly PieceType[];
+  private strategy: RandomizerStrategy;
+  
+  constructor(seed: number, name: RandomizerName = 'bag7', types: readonly PieceType[] = PIECE_TYPES) {
+    this.seed = seed;
+    this.name = name;
+    this.types = types;
+    this.random = seededRandom(seed);
+    this.strategy = createRandomizerStrategy(name, types);
+  }
+  
+  next(): PieceType {
+    return this.queue.shift() ?? this.generate();
+  }
+  
+  peek(count: number): PieceType[] {
+    while (this.queue.length < count) {
+      this.queue.push(this.generate());
+    }
+    return this.queue.slice(0, count);
+  }
+  
+  private generate(): PieceType {
+    this.generated++;
+    return this.strategy.next(this.random);
   }
   
-  reset(): void {
-    this.bag = [];
+  getSeed(): number {
+    return this.seed;
+  }
+  
+  reset(seed: number = this.seed): void {
+    this.seed = seed;
+    this.random = seededRandom(seed);
+    this.strategy = createRandomizerStrategy(this.name, this.types);
+    this.queue = [];
+    this.generated = 0;
+  }
+  
+  getSnapshot(): RandomizerSnapshot {
+    return { seed: this.seed, generated: this.generated, queue: [...this.queue] };
+  }
+  
+  // The generator and the strategy's bag or history are rebuilt by dealing the
+  // same number of pieces again from the same seed.
+  restore(snapshot: RandomizerSnapshot): void {
+    this.reset(snapshot.seed);
+    while (this.generated < snapshot.generated) {
+      this.generate();
+    }
+    this.queue = [...snapshot.queue];
   }
 }
@@ -1,14 +1,27 @@
-import { COLORS, BOARD_WIDTH, BOARD_HEIGHT, SPAWN_ROWS, type PieceType } from './constants';
-import type { GameState, Piece } from './types';
-import { getPieceCells } from './piece';
+import { COLORS, DEFAULT_DIMENSIONS, type PieceType, type BoardDimensions } from './constants';
+import type { GameState, Piece, ClearResult } from './types';
+import { TSpin } from './types';
+import { getPieceCells, getPieceColor, PIECE_SETS } from './piece';
 import { getVisibleBoard } from './board';
+import type { CellGetter } from './board';
+import { GAME_MODES } from './modes';
+import type { GameMode, HudField } from './modes';
+import { describePuzzleGoal } from './puzzle';
+import type { PuzzleProgress } from './puzzle';
+import type { FinesseProgress } from './finesse';
+import type { BotMove } from './bot';
 
 const CANVAS_WIDTH = 320;
 const CANVAS_HEIGHT = 288;
 const CELL_SIZE = 10;
-const PLAYFIELD_X = 110;
-const PLAYFIELD_Y = 48;
+const PLAYFIELD_AREA = { x: 90, y: 48, width: 140, height: 200 };
 const PREVIEW_SIZE = 4;
+const PREVIEW_CELL_SIZE = 5;
+const BANNER_DURATION = 1500;
+const HUD_COLUMNS = [10, 130, 230];
+const FINESSE_SUMMARY_ROWS = 4;
+
+const CLEAR_NAMES = ['', 'SINGLE', 'DOUBLE', 'TRIPLE', 'QUAD'];
 
 const PIECE_COLORS = [
   COLORS.empty,
@@ -19,11 +32,20 @@ const PIECE_COLORS = [
   COLORS.Z,
   COLORS.J,
   COLORS.L,
+  COLORS.garbage,
 ];
 
 export class GameRenderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
+  private bannerText: string | null = null;
+  private bannerUntil: number = 0;
+  private getCells: CellGetter = getPieceCells;
+  private continueAvailable: boolean = false;
+  private dimensions: BoardDimensions = DEFAULT_DIMENSIONS;
+  private cellSize: number = CELL_SIZE;
+  private playfieldX: number = 0;
+  private playfieldY: number = 0;
   
   constructor() {
     this.canvas = document.createElement('canvas');
@@ -36,6 +58,15 @@ export class GameRenderer {
     return this.canvas;
   }
   
+  setContinueAvailable(available: boolean): void {
+    this.continueAvailable = available;
+  }
+  
+  showBanner(text: string, duration: number = BANNER_DURATION): void {
+    this.bannerText = text;
+    this.bannerUntil = performance.now() + duration;
+  }
+  
   renderStartup(progress: number): void {
     this.ctx.fillStyle = '#000000';
     this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
@@ -94,13 +125,25 @@ export class GameRenderer {
     }
   }
   
-  render(state: GameState, ghostY: number): void {
+  render(state: GameState, ghostY: number, getCells: CellGetter = getPieceCells, hint: BotMove | null = null): void {
+    this.getCells = getCells;
+    this.layout(state.dimensions);
+    
     this.ctx.fillStyle = COLORS.empty;
     this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
     
     this.drawGrid();
     this.drawBoard(state.board);
     
+    if (state.clearingRows.length > 0) {
+      this.drawClearingRows(state.clearingRows, state.phaseProgress);
+    }
+    
+    const showHint = hint !== null && state.currentPiece !== null && !GAME_MODES[state.mode].ranked;
+    if (showHint) {
+      this.drawGhostPiece(hint.piece, hint.piece.y, COLORS.hint);
+    }
+    
     if (state.currentPiece) {
       this.drawGhostPiece(state.currentPiece, ghostY);
       this.drawPiece(state.currentPiece);
@@ -109,9 +152,23 @@ export class GameRenderer {
     this.drawHUD(state);
     this.drawNextQueue(state.nextQueue);
     this.drawHoldPiece(state.holdPiece);
+    if (showHint && hint.hold) {
+      this.drawHoldHint();
+    }
+    this.drawClearInfo(state.lastClear);
+    
+    if (state.puzzle) {
+      this.drawPuzzleGoal(state.puzzle);
+    }
+    
+    if (this.bannerText && performance.now() < this.bannerUntil) {
+      this.drawBanner(this.bannerText);
+    }
     
     if (!state.playing && !state.gameOver) {
-      this.drawAttractScreen();
+      const mode = GAME_MODES[state.mode];
+      const detail = state.puzzle ? state.puzzle.name : mode.levelUp ? `LEVEL ${state.level}` : null;
+      this.drawAttractScreen(mode.name, detail, PIECE_SETS[state.pieceSet].name);
     }
     
     if (state.paused) {
@@ -119,39 +176,81 @@ export class GameRenderer {
     }
     
     if (state.gameOver) {
-      this.drawGameOverScreen(state.score);
+      this.drawGameOverScreen(state);
+      if (!GAME_MODES[state.mode].bot) {
+        this.drawFinesseSummary(state.finesse);
+      }
+    }
+  }
+  
+  renderReplayOverlay(paused: boolean, speed: number, finished: boolean): void {
+    let label = 'REPLAY';
+    if (finished) {
+      label += ' END';
+    } else if (paused) {
+      label += ' ||';
+    } else if (speed !== 1) {
+      label += ` x${speed}`;
     }
+    
+    this.drawOverlayLabel(label);
+  }
+  
+  renderDemoOverlay(): void {
+    this.drawOverlayLabel('DEMO');
+  }
+  
+  private drawOverlayLabel(label: string): void {
+    this.ctx.fillStyle = '#F87171';
+    this.ctx.font = 'bold 10px monospace';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(label, CANVAS_WIDTH / 2, 24);
+  }
+  
+  private layout(dimensions: BoardDimensions): void {
+    const { width, height } = dimensions;
+    this.dimensions = dimensions;
+    this.cellSize = Math.max(1, Math.min(
+      CELL_SIZE,
+      Math.floor(PLAYFIELD_AREA.width / width),
+      Math.floor(PLAYFIELD_AREA.height / height)
+    ));
+    this.playfieldX = PLAYFIELD_AREA.x + Math.floor((PLAYFIELD_AREA.width - width * this.cellSize) / 2);
+    this.playfieldY = PLAYFIELD_AREA.y + Math.floor((PLAYFIELD_AREA.height - height * this.cellSize) / 2);
   }
   
   private drawGrid(): void {
+    const { width, height } = this.dimensions;
+    
     this.ctx.strokeStyle = COLORS.grid;
     this.ctx.lineWidth = 0.5;
     
-    for (let x = 0; x <= BOARD_WIDTH; x++) {
+    for (let x = 0; x <= width; x++) {
       this.ctx.beginPath();
-      this.ctx.moveTo(PLAYFIELD_X + x * CELL_SIZE, PLAYFIELD_Y);
-      this.ctx.lineTo(PLAYFIELD_X + x * CELL_SIZE, PLAYFIELD_Y + BOARD_HEIGHT * CELL_SIZE);
+      this.ctx.moveTo(this.playfieldX + x * this.cellSize, this.playfieldY);
+      this.ctx.lineTo(this.playfieldX + x * this.cellSize, this.playfieldY + height * this.cellSize);
       this.ctx.stroke();
     }
     
-    for (let y = 0; y <= BOARD_HEIGHT; y++) {
+    for (let y = 0; y <= height; y++) {
       this.ctx.beginPath();
-      this.ctx.moveTo(PLAYFIELD_X, PLAYFIELD_Y + y * CELL_SIZE);
-      this.ctx.lineTo(PLAYFIELD_X + BOARD_WIDTH * CELL_SIZE, PLAYFIELD_Y + y * CELL_SIZE);
+      this.ctx.moveTo(this.playfieldX, this.playfieldY + y * this.cellSize);
+      this.ctx.lineTo(this.playfieldX + width * this.cellSize, this.playfieldY + y * this.cellSize);
       this.ctx.stroke();
     }
   }
   
   private drawBoard(board: number[][]): void {
-    const visibleBoard = getVisibleBoard(board);
+    const { width, height, spawnRows } = this.dimensions;
+    const visibleBoard = getVisibleBoard(board, spawnRows);
     
-    for (let y = 0; y < BOARD_HEIGHT; y++) {
-      for (let x = 0; x < BOARD_WIDTH; x++) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
         const cell = visibleBoard[y][x];
         if (cell !== 0) {
           this.drawCell(
-            PLAYFIELD_X + x * CELL_SIZE,
-            PLAYFIELD_Y + y * CELL_SIZE,
+            this.playfieldX + x * this.cellSize,
+            this.playfieldY + y * this.cellSize,
             PIECE_COLORS[cell]
           );
         }
@@ -159,39 +258,59 @@ export class GameRenderer {
     }
   }
   
+  private drawClearingRows(rows: number[], progress: number): void {
+    const { spawnRows } = this.dimensions;
+    const rowWidth = this.dimensions.width * this.cellSize;
+    const flash = Math.floor(progress * 6) % 2 === 0;
+    const wipeWidth = rowWidth * progress;
+    
+    for (const row of rows) {
+      if (row < spawnRows) continue;
+      const y = this.playfieldY + (row - spawnRows) * this.cellSize;
+      
+      if (flash) {
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+        this.ctx.fillRect(this.playfieldX, y, rowWidth, this.cellSize);
+      }
+      
+      this.ctx.fillStyle = COLORS.empty;
+      this.ctx.fillRect(this.playfieldX + (rowWidth - wipeWidth) / 2, y, wipeWidth, this.cellSize);
+    }
+  }
+  
   private drawPiece(piece: Piece): void {
-    const cells = getPieceCells(piece.type, piece.rotation);
-    const color = PIECE_COLORS[getPieceColorIndex(piece.type)];
+    const cells = this.getCells(piece.type, piece.rotation);
+    const color = PIECE_COLORS[getPieceColor(piece.type)];
     
     for (const [dx, dy] of cells) {
       const x = piece.x + dx;
-      const y = piece.y + dy - SPAWN_ROWS;
+      const y = piece.y + dy - this.dimensions.spawnRows;
       
-      if (y >= 0 && y < BOARD_HEIGHT) {
+      if (y >= 0 && y < this.dimensions.height) {
         this.drawCell(
-          PLAYFIELD_X + x * CELL_SIZE,
-          PLAYFIELD_Y + y * CELL_SIZE,
+          Math.round(this.playfieldX + x * this.cellSize),
+          Math.round(this.playfieldY + y * this.cellSize),
           color
         );
       }
     }
   }
   
-  private drawGhostPiece(piece: Piece, ghostY: number): void {
-    const cells = getPieceCells(piece.type, piece.rotation);
+  private drawGhostPiece(piece: Piece, ghostY: number, color: string = COLORS.ghost): void {
+    const cells = this.getCells(piece.type, piece.rotation);
     
-    this.ctx.fillStyle = COLORS.ghost;
+    this.ctx.fillStyle = color;
     
     for (const [dx, dy] of cells) {
       const x = piece.x + dx;
-      const y = ghostY + dy - SPAWN_ROWS;
+      const y = ghostY + dy - this.dimensions.spawnRows;
       
-      if (y >= 0 && y < BOARD_HEIGHT) {
+      if (y >= 0 && y < this.dimensions.height) {
         this.ctx.fillRect(
-          PLAYFIELD_X + x * CELL_SIZE + 1,
-          PLAYFIELD_Y + y * CELL_SIZE + 1,
-          CELL_SIZE - 2,
-          CELL_SIZE - 2
+          Math.round(this.playfieldX + x * this.cellSize) + 1,
+          this.playfieldY + y * this.cellSize + 1,
+          this.cellSize - 2,
+          this.cellSize - 2
         );
       }
     }
@@ -199,15 +318,15 @@ export class GameRenderer {
   
   private drawCell(x: number, y: number, color: string): void {
     this.ctx.fillStyle = color;
-    this.ctx.fillRect(x + 1, y + 1, CELL_SIZE - 2, CELL_SIZE - 2);
+    this.ctx.fillRect(x + 1, y + 1, this.cellSize - 2, this.cellSize - 2);
     
     this.ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-    this.ctx.fillRect(x + 1, y + 1, CELL_SIZE - 2, 2);
-    this.ctx.fillRect(x + 1, y + 1, 2, CELL_SIZE - 2);
+    this.ctx.fillRect(x + 1, y + 1, this.cellSize - 2, 2);
+    this.ctx.fillRect(x + 1, y + 1, 2, this.cellSize - 2);
     
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
-    this.ctx.fillRect(x + CELL_SIZE - 3, y + 1, 2, CELL_SIZE - 2);
-    this.ctx.fillRect(x + 1, y + CELL_SIZE - 3, CELL_SIZE - 2, 2);
+    this.ctx.fillRect(x + this.cellSize - 3, y + 1, 2, this.cellSize - 2);
+    this.ctx.fillRect(x + 1, y + this.cellSize - 3, this.cellSize - 2, 2);
   }
   
   private drawHUD(state: GameState): void {
@@ -215,14 +334,12 @@ export class GameRenderer {
     this.ctx.font = 'bold 12px monospace';
     this.ctx.textAlign = 'left';
     
-    this.ctx.fillText('SCORE', 10, 265);
-    this.ctx.fillText(state.score.toString().padStart(6, '0'), 10, 280);
-    
-    this.ctx.fillText('LEVEL', 130, 265);
-    this.ctx.fillText(state.level.toString(), 130, 280);
-    
-    this.ctx.fillText('LINES', 230, 265);
-    this.ctx.fillText(state.lines.toString().padStart(3, '0'), 230, 280);
+    const mode = GAME_MODES[state.mode];
+    mode.hud.forEach((field, i) => {
+      const [label, value] = getHudText(field, state, mode);
+      this.ctx.fillText(label, HUD_COLUMNS[i], 265);
+      this.ctx.fillText(value, HUD_COLUMNS[i], 280);
+    });
   }
   
   private drawNextQueue(nextQueue: PieceType[]): void {
@@ -251,10 +368,74 @@ export class GameRenderer {
     }
   }
   
+  private drawHoldHint(): void {
+    this.ctx.fillStyle = COLORS.S;
+    this.ctx.font = 'bold 10px monospace';
+    this.ctx.textAlign = 'left';
+    this.ctx.fillText('USE HOLD', 10, 66);
+  }
+  
+  private drawClearInfo(lastClear: ClearResult | null): void {
+    if (!lastClear) return;
+    
+    this.ctx.fillStyle = COLORS.T;
+    this.ctx.font = 'bold 10px monospace';
+    this.ctx.textAlign = 'left';
+    
+    let y = 90;
+    if (lastClear.tSpin !== TSpin.NONE) {
+      this.ctx.fillText(lastClear.tSpin === TSpin.MINI ? 'T-SPIN MINI' : 'T-SPIN', 10, y);
+      y += 14;
+    }
+    
+    if (lastClear.lines > 0) {
+      this.ctx.fillStyle = '#FFFFFF';
+      this.ctx.fillText(CLEAR_NAMES[lastClear.lines] ?? '', 10, y);
+      y += 14;
+    }
+    
+    this.ctx.fillStyle = COLORS.O;
+    if (lastClear.backToBack) {
+      this.ctx.fillText('BACK-TO-BACK', 10, y);
+      y += 14;
+    }
+    
+    if (lastClear.combo > 0) {
+      this.ctx.fillText(`${lastClear.combo} COMBO`, 10, y);
+    }
+  }
+  
+  private drawPuzzleGoal(puzzle: PuzzleProgress): void {
+    this.ctx.fillStyle = '#FFFFFF';
+    this.ctx.font = 'bold 10px monospace';
+    this.ctx.textAlign = 'left';
+    this.ctx.fillText('GOAL', 10, 170);
+    
+    this.ctx.fillStyle = COLORS.S;
+    describePuzzleGoal(puzzle.goal).forEach((line, i) => {
+      this.ctx.fillText(line, 10, 184 + i * 14);
+    });
+  }
+  
+  // The latest mistakes, as inputs used against the fewest that reach the same placement.
+  private drawFinesseSummary(finesse: FinesseProgress): void {
+    this.ctx.fillStyle = '#FFFFFF';
+    this.ctx.font = 'bold 10px monospace';
+    this.ctx.textAlign = 'left';
+    this.ctx.fillText('FINESSE', 230, 180);
+    
+    this.ctx.fillStyle = finesse.faults > 0 ? '#F87171' : COLORS.S;
+    this.ctx.fillText(`${finesse.faults}/${finesse.pieces} FAULTS`, 230, 194);
+    
+    this.ctx.fillStyle = '#FFFFFF';
+    finesse.mistakes.slice(-FINESSE_SUMMARY_ROWS).forEach((mistake, i) => {
+      this.ctx.fillText(`${mistake.type} ${mistake.used} > ${mistake.needed}`, 230, 208 + i * 12);
+    });
+  }
+  
   private drawPreviewPiece(type: PieceType, x: number, y: number): void {
-    const cells = getPieceCells(type, 0);
-    const color = PIECE_COLORS[getPieceColorIndex(type)];
-    const previewCellSize = 5;
+    const cells = this.getCells(type, 0);
+    const color = PIECE_COLORS[getPieceColor(type)];
     
     let minX = Infinity, maxX = -Infinity;
     let minY = Infinity, maxY = -Infinity;
@@ -268,8 +449,11 @@ export class GameRenderer {
     
     const width = maxX - minX + 1;
     const height = maxY - minY + 1;
-    const offsetX = (PREVIEW_SIZE - width) / 2 - minX;
-    const offsetY = (PREVIEW_SIZE - height) / 2 - minY;
+    // Pieces longer than five cells, such as big mode's, shrink to fit between preview slots.
+    const box = PREVIEW_SIZE * PREVIEW_CELL_SIZE;
+    const previewCellSize = Math.min(PREVIEW_CELL_SIZE, Math.floor((box + PREVIEW_CELL_SIZE) / Math.max(width, height)));
+    const offsetX = (box / previewCellSize - width) / 2 - minX;
+    const offsetY = (box / previewCellSize - height) / 2 - minY;
     
     for (const [dx, dy] of cells) {
       this.ctx.fillStyle = color;
@@ -282,9 +466,9 @@ export class GameRenderer {
     }
   }
   
-  private drawAttractScreen(): void {
+  private drawAttractScreen(modeName: string, detail: string | null, pieceSetName: string): void {
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    this.ctx.fillRect(PLAYFIELD_X, PLAYFIELD_Y, BOARD_WIDTH * CELL_SIZE, BOARD_HEIGHT * CELL_SIZE);
+    this.fillPlayfield();
     
     this.ctx.fillStyle = '#FFFFFF';
     this.ctx.font = 'bold 14px monospace';
@@ -292,13 +476,49 @@ export class GameRenderer {
     this.ctx.fillText('BRICKDROP', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 20);
     
     this.ctx.font = '10px monospace';
-    this.ctx.fillText('Press ENTER', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 10);
-    this.ctx.fillText('to start', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 25);
+    this.ctx.fillStyle = COLORS.O;
+    this.ctx.fillText(`< ${modeName} >`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+    
+    if (detail !== null) {
+      this.ctx.fillText(detail, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 50);
+    }
+    
+    this.ctx.fillStyle = '#FFFFFF';
+    this.ctx.fillText('Press ENTER', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 20);
+    this.ctx.fillText('to start', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 35);
+    
+    if (this.continueAvailable) {
+      this.ctx.fillStyle = COLORS.S;
+      this.ctx.fillText('C: Continue', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 65);
+    }
+    
+    this.ctx.fillStyle = '#FFFFFF';
+    this.ctx.fillText(`Z: ${pieceSetName}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 80);
+  }
+  
+  private fillPlayfield(): void {
+    const { width, height } = this.dimensions;
+    this.ctx.fillRect(this.playfieldX, this.playfieldY, width * this.cellSize, height * this.cellSize);
+  }
+  
+  private drawBanner(text: string): void {
+    const centerY = this.playfieldY + (this.dimensions.height * this.cellSize) / 2;
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    this.ctx.fillRect(this.playfieldX, centerY - 20, this.dimensions.width * this.cellSize, 40);
+    
+    this.ctx.fillStyle = COLORS.O;
+    this.ctx.font = 'bold 12px monospace';
+    this.ctx.textAlign = 'center';
+    
+    const words = text.split(' ');
+    for (let i = 0; i < words.length; i++) {
+      this.ctx.fillText(words[i], CANVAS_WIDTH / 2, centerY - 4 + i * 14 - (words.length - 1) * 7);
+    }
   }
   
   private drawPauseScreen(): void {
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    this.ctx.fillRect(PLAYFIELD_X, PLAYFIELD_Y, BOARD_WIDTH * CELL_SIZE, BOARD_HEIGHT * CELL_SIZE);
+    this.fillPlayfield();
     
     this.ctx.fillStyle = '#FFFFFF';
     this.ctx.font = 'bold 14px monospace';
@@ -306,26 +526,58 @@ export class GameRenderer {
     this.ctx.fillText('PAUSED', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
   }
   
-  private drawGameOverScreen(score: number): void {
+  private drawGameOverScreen(state: GameState): void {
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    this.ctx.fillRect(PLAYFIELD_X, PLAYFIELD_Y, BOARD_WIDTH * CELL_SIZE, BOARD_HEIGHT * CELL_SIZE);
+    this.fillPlayfield();
     
-    this.ctx.fillStyle = '#F87171';
+    const [title, color] = state.endReason === 'goal'
+      ? [state.puzzle ? 'SOLVED' : 'COMPLETE', COLORS.S]
+      : state.endReason === 'timeUp' ? ['TIME UP', COLORS.O]
+      : state.endReason === 'failed' ? ['FAILED', '#F87171'] : ['GAME OVER', '#F87171'];
+    const result = GAME_MODES[state.mode].result === 'time'
+      ? `Time: ${formatTime(state.time)}`
+      : `Score: ${state.score}`;
+    
+    this.ctx.fillStyle = color;
     this.ctx.font = 'bold 14px monospace';
     this.ctx.textAlign = 'center';
-    this.ctx.fillText('GAME OVER', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 20);
+    this.ctx.fillText(title, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 20);
     
     this.ctx.fillStyle = '#FFFFFF';
     this.ctx.font = '10px monospace';
-    this.ctx.fillText(`Score: ${score}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 5);
+    this.ctx.fillText(result, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 5);
     this.ctx.fillText('Press ENTER', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 25);
     this.ctx.fillText('to restart', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 40);
+    this.ctx.fillText('< > mode', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 60);
+    
+    if (GAME_MODES[state.mode].rewind) {
+      this.ctx.fillStyle = COLORS.S;
+      this.ctx.fillText('U: Undo', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 80);
+    }
   }
 }
 
-function getPieceColorIndex(type: PieceType): number {
-  const map: Record<PieceType, number> = {
-    I: 1, O: 2, T: 3, S: 4, Z: 5, J: 6, L: 7
-  };
-  return map[type] || 0;
+function formatTime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor(ms / 1000) % 60;
+  const millis = Math.floor(ms) % 1000;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${millis.toString().padStart(3, '0')}`;
+}
+
+function getHudText(field: HudField, state: GameState, mode: GameMode): [string, string] {
+  switch (field) {
+    case 'score':
+      return ['SCORE', state.score.toString().padStart(6, '0')];
+    case 'level':
+      return ['LEVEL', state.level.toString()];
+    case 'lines':
+      if (mode.lineGoal !== undefined && !mode.levelUp) {
+        return ['LINES', `${state.lines}/${mode.lineGoal}`];
+      }
+      return ['LINES', state.lines.toString().padStart(3, '0')];
+    case 'garbage':
+      return ['GARBAGE', `${(mode.garbageGoal ?? 0) - state.garbageCleared}`];
+    case 'time':
+      return ['TIME', formatTime(mode.timeLimit !== undefined ? mode.timeLimit - state.time : state.time)];
+  }
 }
@@ -0,0 +1,217 @@
+import type { PieceType, TetrominoType, BoardDimensions } from './constants';
+import type { Board, Piece, Position, Kick180Set, RotationSystemName } from './types';
+import { isValidPosition, isCellOccupied } from './board';
+import { getPieceCells, getWallKicks } from './piece';
+
+export interface RotationResult {
+  piece: Piece;
+  kickIndex: number;
+}
+
+export interface RotationSystem {
+  name: RotationSystemName;
+  getCells: (type: PieceType, rotation: number) => Position[];
+  // Where a new piece's origin goes, relative to the middle column and the first visible row.
+  spawnOffset: Position;
+  rotate: (board: Board, piece: Piece, direction: number, kicks180: Kick180Set) => RotationResult | null;
+}
+
+// ARS and NES only describe tetrominoes; the other piece sets always play under SRS.
+type ShapeTable = Record<TetrominoType, Position[][]>;
+
+function tryKicks(
+  board: Board,
+  piece: Piece,
+  rotation: number,
+  kicks: Position[],
+  getCells: RotationSystem['getCells']
+): RotationResult | null {
+  for (let kickIndex = 0; kickIndex < kicks.length; kickIndex++) {
+    const [kx, ky] = kicks[kickIndex];
+    const rotated: Piece = {
+      ...piece,
+      rotation,
+      x: piece.x + kx,
+      y: piece.y - ky,
+    };
+    
+    if (isValidPosition(board, rotated, getCells)) {
+      return { piece: rotated, kickIndex };
+    }
+  }
+  
+  return null;
+}
+
+export const SRS: RotationSystem = {
+  name: 'srs',
+  getCells: getPieceCells,
+  spawnOffset: [-1, -2],
+  rotate: (board, piece, direction, kicks180) => {
+    const rotation = (piece.rotation + direction + 4) % 4;
+    const kicks = getWallKicks(piece.type, piece.rotation, rotation, kicks180);
+    return tryKicks(board, piece, rotation, kicks, getPieceCells);
+  },
+};
+
+// Pieces rest on the bottom of their 3x3 box, as in the Arika games.
+const ARS_SHAPES: ShapeTable = {
+  I: [
+    [[-1, 0], [0, 0], [1, 0], [2, 0]],
+    [[1, -1], [1, 0], [1, 1], [1, 2]],
+    [[-1, 0], [0, 0], [1, 0], [2, 0]],
+    [[1, -1], [1, 0], [1, 1], [1, 2]],
+  ],
+  O: [
+    [[0, 0], [1, 0], [0, 1], [1, 1]],
+    [[0, 0], [1, 0], [0, 1], [1, 1]],
+    [[0, 0], [1, 0], [0, 1], [1, 1]],
+    [[0, 0], [1, 0], [0, 1], [1, 1]],
+  ],
+  T: [
+    [[-1, 0], [0, 0], [1, 0], [0, 1]],
+    [[0, -1], [-1, 0], [0, 0], [0, 1]],
+    [[0, 0], [-1, 1], [0, 1], [1, 1]],
+    [[0, -1], [0, 0], [1, 0], [0, 1]],
+  ],
+  S: [
+    [[0, 0], [1, 0], [-1, 1], [0, 1]],
+    [[-1, -1], [-1, 0], [0, 0], [0, 1]],
+    [[0, 0], [1, 0], [-1, 1], [0, 1]],
+    [[-1, -1], [-1, 0], [0, 0], [0, 1]],
+  ],
+  Z: [
+    [[-1, 0], [0, 0], [0, 1], [1, 1]],
+    [[1, -1], [0, 0], [1, 0], [0, 1]],
+    [[-1, 0], [0, 0], [0, 1], [1, 1]],
+    [[1, -1], [0, 0], [1, 0], [0, 1]],
+  ],
+  J: [
+    [[-1, 0], [0, 0], [1, 0], [1, 1]],
+    [[0, -1], [0, 0], [-1, 1], [0, 1]],
+    [[-1, 0], [-1, 1], [0, 1], [1, 1]],
+    [[0, -1], [1, -1], [0, 0], [0, 1]],
+  ],
+  L: [
+    [[-1, 0], [0, 0], [1, 0], [-1, 1]],
+    [[-1, -1], [0, -1], [0, 0], [0, 1]],
+    [[1, 0], [-1, 1], [0, 1], [1, 1]],
+    [[0, -1], [0, 0], [0, 1], [1, 1]],
+  ],
+};
+
+const ARS_KICKS: Position[] = [[0, 0], [1, 0], [-1, 0]];
+const ARS_CENTER_RULE_PIECES: ReadonlySet<PieceType> = new Set(['L', 'J', 'T']);
+
+function getArsCells(type: PieceType, rotation: number): Position[] {
+  return ARS_SHAPES[type as TetrominoType][rotation % 4];
+}
+
+// L, J and T refuse to kick when the first blocked cell, read left to right and
+// top to bottom, sits in the centre column of the box.
+function isBlockedInCenterColumn(board: Board, piece: Piece): boolean {
+  const cells = [...getArsCells(piece.type, piece.rotation)].sort(([ax, ay], [bx, by]) => ay - by || ax - bx);
+  
+  for (const [dx, dy] of cells) {
+    if (isCellOccupied(board, piece.x + dx, piece.y + dy)) {
+      return dx === 0;
+    }
+  }
+  
+  return false;
+}
+
+export const ARS: RotationSystem = {
+  name: 'ars',
+  getCells: getArsCells,
+  spawnOffset: [-1, 0],
+  rotate: (board, piece, direction) => {
+    const rotation = (piece.rotation + direction + 4) % 4;
+    const basic = tryKicks(board, piece, rotation, [[0, 0]], getArsCells);
+    if (basic || piece.type === 'I' || piece.type === 'O') return basic;
+    
+    if (ARS_CENTER_RULE_PIECES.has(piece.type) && isBlockedInCenterColumn(board, { ...piece, rotation })) {
+      return null;
+    }
+    
+    return tryKicks(board, piece, rotation, ARS_KICKS, getArsCells);
+  },
+};
+
+// Right-handed rotation about a fixed cell, matching the NES orientation table.
+const NES_SHAPES: ShapeTable = {
+  I: [
+    [[-2, 0], [-1, 0], [0, 0], [1, 0]],
+    [[0, -2], [0, -1], [0, 0], [0, 1]],
+    [[-2, 0], [-1, 0], [0, 0], [1, 0]],
+    [[0, -2], [0, -1], [0, 0], [0, 1]],
+  ],
+  O: [
+    [[-1, 0], [0, 0], [-1, 1], [0, 1]],
+    [[-1, 0], [0, 0], [-1, 1], [0, 1]],
+    [[-1, 0], [0, 0], [-1, 1], [0, 1]],
+    [[-1, 0], [0, 0], [-1, 1], [0, 1]],
+  ],
+  T: [
+    [[-1, 0], [0, 0], [1, 0], [0, 1]],
+    [[0, -1], [-1, 0], [0, 0], [0, 1]],
+    [[-1, 0], [0, 0], [1, 0], [0, -1]],
+    [[0, -1], [0, 0], [1, 0], [0, 1]],
+  ],
+  S: [
+    [[0, 0], [1, 0], [-1, 1], [0, 1]],
+    [[0, -1], [0, 0], [1, 0], [1, 1]],
+    [[0, 0], [1, 0], [-1, 1], [0, 1]],
+    [[0, -1], [0, 0], [1, 0], [1, 1]],
+  ],
+  Z: [
+    [[-1, 0], [0, 0], [0, 1], [1, 1]],
+    [[1, -1], [0, 0], [1, 0], [0, 1]],
+    [[-1, 0], [0, 0], [0, 1], [1, 1]],
+    [[1, -1], [0, 0], [1, 0], [0, 1]],
+  ],
+  J: [
+    [[-1, 0], [0, 0], [1, 0], [1, 1]],
+    [[0, -1], [0, 0], [-1, 1], [0, 1]],
+    [[-1, -1], [-1, 0], [0, 0], [1, 0]],
+    [[0, -1], [1, -1], [0, 0], [0, 1]],
+  ],
+  L: [
+    [[-1, 0], [0, 0], [1, 0], [-1, 1]],
+    [[-1, -1], [0, -1], [0, 0], [0, 1]],
+    [[1, -1], [-1, 0], [0, 0], [1, 0]],
+    [[0, -1], [0, 0], [0, 1], [1, 1]],
+  ],
+};
+
+function getNesCells(type: PieceType, rotation: number): Position[] {
+  return NES_SHAPES[type as TetrominoType][rotation % 4];
+}
+
+export const NES: RotationSystem = {
+  name: 'nes',
+  getCells: getNesCells,
+  spawnOffset: [0, 0],
+  rotate: (board, piece, direction) => {
+    const rotation = (piece.rotation + direction + 4) % 4;
+    return tryKicks(board, piece, rotation, [[0, 0]], getNesCells);
+  },
+};
+
+// SRS pieces enter in the buffer just above the stack; ARS and NES pieces appear in the top visible rows,
+// and NES centres them one column further right.
+export function createSpawnPiece(rotationSystem: RotationSystem, type: PieceType, dimensions: BoardDimensions): Piece {
+  const [dx, dy] = rotationSystem.spawnOffset;
+  return {
+    type,
+    x: Math.floor(dimensions.width / 2) + dx,
+    y: dimensions.spawnRows + dy,
+    rotation: 0,
+  };
+}
+
+export const ROTATION_SYSTEMS: Record<RotationSystemName, RotationSystem> = {
+  srs: SRS,
+  ars: ARS,
+  nes: NES,
+};
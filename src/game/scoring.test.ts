@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateScore,
+  isDifficultClear,
+  calculateComboBonus,
+  calculatePerfectClearBonus,
+} from './scoring';
+import { TSpin } from './types';
+
+describe('scoring', () => {
+  it('scales line clears by level', () => {
+    expect(calculateScore(1, 1)).toBe(100);
+    expect(calculateScore(4, 3)).toBe(2400);
+    expect(calculateScore(2, 2, TSpin.FULL)).toBe(2400);
+    expect(calculateScore(1, 1, TSpin.MINI)).toBe(200);
+  });
+  
+  it('adds half again for a back-to-back clear', () => {
+    expect(calculateScore(4, 1, TSpin.NONE, true)).toBe(1200);
+    expect(calculateScore(2, 2, TSpin.FULL, true)).toBe(3600);
+    expect(calculateScore(1, 1, TSpin.MINI, true)).toBe(300);
+  });
+  
+  it('counts tetrises and line-clearing T-Spins as difficult', () => {
+    expect(isDifficultClear(4, TSpin.NONE)).toBe(true);
+    expect(isDifficultClear(1, TSpin.MINI)).toBe(true);
+    expect(isDifficultClear(3, TSpin.NONE)).toBe(false);
+    expect(isDifficultClear(0, TSpin.FULL)).toBe(false);
+  });
+  
+  it('pays combos from the second clear in a row', () => {
+    expect(calculateComboBonus(0, 5)).toBe(0);
+    expect(calculateComboBonus(1, 1)).toBe(50);
+    expect(calculateComboBonus(4, 2)).toBe(400);
+  });
+  
+  it('pays perfect clears by lines, with a larger back-to-back tetris bonus', () => {
+    expect(calculatePerfectClearBonus(1, 1, false)).toBe(800);
+    expect(calculatePerfectClearBonus(3, 2, true)).toBe(3600);
+    expect(calculatePerfectClearBonus(4, 1, false)).toBe(2000);
+    expect(calculatePerfectClearBonus(4, 1, true)).toBe(3200);
+  });
+});
@@ -1,8 +1,54 @@
-import { SCORE_TABLE, LINES_PER_LEVEL } from './constants';
+import {
+  SCORE_TABLE,
+  TSPIN_SCORE_TABLE,
+  TSPIN_MINI_SCORE_TABLE,
+  PERFECT_CLEAR_SCORE_TABLE,
+  PERFECT_CLEAR_BACK_TO_BACK_SCORE,
+  COMBO_BONUS,
+  BACK_TO_BACK_MULTIPLIER,
+  LINES_PER_LEVEL,
+  GRAVITY_TABLE,
+  FRAME_DURATION,
+  MAX_GRAVITY,
+} from './constants';
+import type { TSpinType, GravityCurve } from './types';
+import { TSpin } from './types';
 
-export function calculateScore(linesCleared: number, level: number): number {
+function getBaseScore(linesCleared: number, tSpin: TSpinType): number {
+  if (tSpin === TSpin.FULL) {
+    return TSPIN_SCORE_TABLE[linesCleared] ?? 0;
+  }
+  if (tSpin === TSpin.MINI) {
+    return TSPIN_MINI_SCORE_TABLE[linesCleared] ?? 0;
+  }
+  
   if (linesCleared === 0) return 0;
-  const base = SCORE_TABLE[linesCleared as keyof typeof SCORE_TABLE] || 0;
+  return SCORE_TABLE[linesCleared as keyof typeof SCORE_TABLE] || 0;
+}
+
+export function calculateScore(
+  linesCleared: number,
+  level: number,
+  tSpin: TSpinType = TSpin.NONE,
+  backToBack: boolean = false
+): number {
+  const base = getBaseScore(linesCleared, tSpin);
+  return Math.floor(backToBack ? base * BACK_TO_BACK_MULTIPLIER : base) * level;
+}
+
+export function isDifficultClear(linesCleared: number, tSpin: TSpinType): boolean {
+  return linesCleared === 4 || (linesCleared > 0 && tSpin !== TSpin.NONE);
+}
+
+export function calculateComboBonus(combo: number, level: number): number {
+  return combo > 0 ? COMBO_BONUS * combo * level : 0;
+}
+
+export function calculatePerfectClearBonus(linesCleared: number, level: number, backToBack: boolean): number {
+  if (linesCleared === 4 && backToBack) {
+    return PERFECT_CLEAR_BACK_TO_BACK_SCORE * level;
+  }
+  const base = PERFECT_CLEAR_SCORE_TABLE[linesCleared as keyof typeof PERFECT_CLEAR_SCORE_TABLE] || 0;
   return base * level;
 }
 
@@ -10,11 +56,15 @@ export function calculateLevel(lines: number, startLevel: number = 1): number {
   return startLevel + Math.floor(lines / LINES_PER_LEVEL);
 }
 
-export function getGravity(level: number): number {
-  const index = Math.min(level - 1, 19);
-  const gravityTable = [
-    1000, 793, 618, 473, 355, 262, 190, 135, 94, 64,
-    43, 28, 18, 11, 7, 5, 3, 2, 1, 1
-  ];
-  return gravityTable[index];
+// Gravity in cells per frame, capped at 20G, which the engine treats as instant; the guideline curve is
+// (0.8 - (level - 1) * 0.007)^(level - 1) seconds per row and the table's last level is 20G.
+export function getGravity(level: number, curve: GravityCurve = 'guideline'): number {
+  if (curve === 'table') {
+    if (level >= GRAVITY_TABLE.length) return MAX_GRAVITY;
+    return Math.min(FRAME_DURATION / GRAVITY_TABLE[Math.max(level, 1) - 1], MAX_GRAVITY);
+  }
+  
+  const n = Math.min(Math.max(level, 1), GRAVITY_TABLE.length) - 1;
+  const secondsPerRow = Math.pow(0.8 - n * 0.007, n);
+  return Math.min(FRAME_DURATION / (secondsPerRow * 1000), MAX_GRAVITY);
 }
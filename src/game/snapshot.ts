@@ -0,0 +1,56 @@
+import type { Board, EngineSettings, GameState, Piece } from './types';
+import type { RandomizerSnapshot } from './randomizer';
+
+export const SNAPSHOT_VERSION = 2;
+
+export interface EngineTimers {
+  gravityTimer: number;
+  lockTimer: number;
+  isLocking: boolean;
+  lockResets: number;
+  lowestRow: number;
+  softDropping: boolean;
+  lastKickIndex: number | null;
+  lastRotationDirection: number;
+  phaseTimer: number;
+  finesseInputs: number;
+  finesseSpawn: Piece | null;
+}
+
+export interface EngineSnapshot {
+  version: number;
+  settings: EngineSettings;
+  status: number;
+  state: GameState;
+  randomizer: RandomizerSnapshot;
+  timers: EngineTimers;
+  pendingBoard: Board | null;
+  pendingGarbage: number[][];
+}
+
+export function serializeSnapshot(snapshot: EngineSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+export function deserializeSnapshot(json: string): EngineSnapshot {
+  const data = JSON.parse(json);
+  
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${data.version}`);
+  }
+  
+  if (!data.state || !data.randomizer || !data.timers || typeof data.randomizer.seed !== 'number') {
+    throw new Error('Malformed snapshot');
+  }
+  
+  return {
+    version: data.version,
+    settings: data.settings ?? {},
+    status: data.status,
+    state: data.state,
+    randomizer: data.randomizer,
+    timers: data.timers,
+    pendingBoard: data.pendingBoard ?? null,
+    pendingGarbage: data.pendingGarbage ?? [],
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { detectTSpin } from './spin';
+import { parseBoardGrid } from './puzzle';
+import { DEFAULT_DIMENSIONS } from './constants';
+import { TSpin } from './types';
+import type { Board, Piece } from './types';
+
+// A T resting in the slot with its centre on the second row from the bottom and its nub pointing down.
+function slotT(board: Board): Piece {
+  return { type: 'T', x: 4, y: board.length - 2, rotation: 0 };
+}
+
+describe('detectTSpin', () => {
+  it('scores a full T-Spin with both front corners and a back corner filled', () => {
+    const board = parseBoardGrid(['XXXX......', 'XXX...XXXX', 'XXXX.XXXXX'], DEFAULT_DIMENSIONS);
+    expect(detectTSpin(board, slotT(board), 0, 1)).toBe(TSpin.FULL);
+  });
+  
+  it('scores a mini when only one front corner is filled', () => {
+    const board = parseBoardGrid(['XXXX.X....', 'XXX...XXXX', 'XXXX..XXXX'], DEFAULT_DIMENSIONS);
+    expect(detectTSpin(board, slotT(board), 0, 1)).toBe(TSpin.MINI);
+  });
+  
+  it('upgrades a mini to a full T-Spin when the rotation used the last kick', () => {
+    const board = parseBoardGrid(['XXXX.X....', 'XXX...XXXX', 'XXXX..XXXX'], DEFAULT_DIMENSIONS);
+    expect(detectTSpin(board, slotT(board), 4, 1)).toBe(TSpin.FULL);
+    expect(detectTSpin(board, slotT(board), 4, 2)).toBe(TSpin.MINI);
+  });
+  
+  it('needs three of the four corners filled', () => {
+    const board = parseBoardGrid(['..........', 'XXX...XXXX', 'XXXX.XXXXX'], DEFAULT_DIMENSIONS);
+    expect(detectTSpin(board, slotT(board), 0, 1)).toBe(TSpin.NONE);
+  });
+  
+  it('ignores pieces other than T', () => {
+    const board = parseBoardGrid(['XXXX......', 'XXX...XXXX', 'XXXX.XXXXX'], DEFAULT_DIMENSIONS);
+    expect(detectTSpin(board, { ...slotT(board), type: 'J' }, 0, 1)).toBe(TSpin.NONE);
+  });
+});
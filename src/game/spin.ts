@@ -0,0 +1,54 @@
+import type { Board, Piece, Position, TSpinType } from './types';
+import { TSpin } from './types';
+import { isCellOccupied } from './board';
+import type { CellGetter } from './board';
+import { getPieceCells } from './piece';
+
+const CORNERS: Position[] = [[-1, -1], [1, -1], [-1, 1], [1, 1]];
+
+// SRS grants a full T-Spin after a mini-shaped rotation if it needed the last kick test.
+const TSPIN_UPGRADE_KICK = 4;
+
+// Returns the T's centre cell and the direction its nub points in.
+function getTOrientation(cells: Position[]): { hub: Position; pointing: Position } {
+  const has = (x: number, y: number) => cells.some(([cx, cy]) => cx === x && cy === y);
+  const neighbours = (x: number, y: number) =>
+    [has(x - 1, y), has(x + 1, y), has(x, y - 1), has(x, y + 1)].filter(Boolean).length;
+  const hub = cells.find(([x, y]) => neighbours(x, y) === 3) ?? [0, 0];
+  const [hx, hy] = hub;
+  
+  const arms = cells
+    .map(([x, y]): Position => [x - hx, y - hy])
+    .filter(([dx, dy]) => dx !== 0 || dy !== 0);
+  const nub = arms.find(([dx, dy]) => !arms.some(([ox, oy]) => ox === -dx && oy === -dy));
+  
+  return { hub, pointing: nub ?? [0, 0] };
+}
+
+export function detectTSpin(
+  board: Board,
+  piece: Piece,
+  kickIndex: number,
+  direction: number,
+  getCells: CellGetter = getPieceCells
+): TSpinType {
+  if (piece.type !== 'T') return TSpin.NONE;
+  
+  const { hub: [hx, hy], pointing: [px, py] } = getTOrientation(getCells(piece.type, piece.rotation));
+  let occupied = 0;
+  let frontOccupied = 0;
+  
+  for (const [cx, cy] of CORNERS) {
+    if (!isCellOccupied(board, piece.x + hx + cx, piece.y + hy + cy)) continue;
+    
+    occupied++;
+    if (cx * px + cy * py > 0) {
+      frontOccupied++;
+    }
+  }
+  
+  if (occupied < 3) return TSpin.NONE;
+  if (frontOccupied === 2) return TSpin.FULL;
+  if (Math.abs(direction) === 1 && kickIndex === TSPIN_UPGRADE_KICK) return TSpin.FULL;
+  return TSpin.MINI;
+}
@@ -1,4 +1,6 @@
-import type { PieceType } from './constants';
+import type { PieceType, DelayPreset, BoardDimensions } from './constants';
+import type { Puzzle, PuzzleProgress } from './puzzle';
+import type { FinesseProgress } from './finesse';
 
 export type Position = [number, number];
 
@@ -12,20 +14,89 @@ export interface Piece {
 export type { PieceType } from './constants';
 export type Board = number[][];
 
+export const EnginePhase = {
+  FALLING: 0,
+  LINE_CLEAR: 1,
+  ENTRY: 2,
+} as const;
+
+export type EnginePhaseType = typeof EnginePhase[keyof typeof EnginePhase];
+
+export const TSpin = {
+  NONE: 0,
+  MINI: 1,
+  FULL: 2,
+} as const;
+
+export type TSpinType = typeof TSpin[keyof typeof TSpin];
+
+export interface ClearResult {
+  lines: number;
+  tSpin: TSpinType;
+  combo: number;
+  backToBack: boolean;
+  perfectClear: boolean;
+  score: number;
+}
+
 export interface GameState {
   board: Board;
+  dimensions: BoardDimensions;
   currentPiece: Piece | null;
+  phase: EnginePhaseType;
+  phaseProgress: number;
+  clearingRows: number[];
   nextQueue: PieceType[];
   holdPiece: PieceType | null;
   canHold: boolean;
   score: number;
   level: number;
   lines: number;
+  time: number;
+  garbageSpawned: number;
+  garbageCleared: number;
+  garbageHole: number;
+  mode: GameModeId;
+  pieceSet: PieceSetName;
+  puzzle: PuzzleProgress | null;
+  finesse: FinesseProgress;
+  endReason: GameEndReason | null;
+  lastClear: ClearResult | null;
+  combo: number;
+  backToBack: boolean;
   gameOver: boolean;
   paused: boolean;
   playing: boolean;
 }
 
+export type LockResetPolicy = 'move' | 'step' | 'none';
+export type Kick180Set = 'none' | 'modern';
+export type RotationSystemName = 'srs' | 'ars' | 'nes';
+export type GravityCurve = 'guideline' | 'table';
+export type PieceSetName = 'tetromino' | 'pentomino' | 'triomino' | 'big';
+export type RandomizerName = 'bag7' | 'bag14' | 'random' | 'nes' | 'tgm1' | 'tgm2';
+export type GameModeId = 'marathon' | 'sprint' | 'ultra' | 'dig10' | 'dig100' | 'survival' | 'practice' | 'puzzle' | 'cpu';
+export type GameEndReason = 'topOut' | 'goal' | 'timeUp' | 'failed';
+
+export interface EngineSettings {
+  mode?: GameModeId;
+  dimensions?: BoardDimensions;
+  delays?: DelayPreset;
+  gravity?: GravityCurve;
+  startLevel?: number;
+  lockReset?: LockResetPolicy;
+  kicks180?: Kick180Set;
+  rotationSystem?: RotationSystemName;
+  pieceSet?: PieceSetName;
+  puzzle?: Puzzle;
+  setup?: Puzzle;
+  randomizer?: RandomizerName;
+}
+
+export interface EngineOptions extends EngineSettings {
+  seed?: number;
+}
+
 export const GameStatus = {
   ATTRACT: 0,
   PLAYING: 1,
@@ -45,6 +116,13 @@ export const Action = {
   HOLD: 6,
   START_PAUSE: 7,
   RESTART: 8,
+  REPLAY: 9,
+  ROTATE_180: 10,
+  UNDO: 11,
+  REDO: 12,
+  EXPORT: 13,
+  TOGGLE_FINESSE: 14,
+  TOGGLE_HINTS: 15,
 } as const;
 
 export type ActionType = typeof Action[keyof typeof Action];
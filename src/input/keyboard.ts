@@ -8,10 +8,17 @@ const KEY_MAP: Record<string, number> = {
   'ArrowUp': Action.ROTATE_CW,
   'KeyZ': Action.ROTATE_CCW,
   'KeyX': Action.ROTATE_CW,
+  'KeyA': Action.ROTATE_180,
   'Space': Action.HARD_DROP,
   'KeyC': Action.HOLD,
   'Enter': Action.START_PAUSE,
   'KeyR': Action.RESTART,
+  'KeyV': Action.REPLAY,
+  'KeyU': Action.UNDO,
+  'KeyI': Action.REDO,
+  'KeyF': Action.EXPORT,
+  'KeyG': Action.TOGGLE_FINESSE,
+  'KeyH': Action.TOGGLE_HINTS,
 };
 
 const DAS_ACTIONS: Set<number> = new Set([Action.MOVE_LEFT, Action.MOVE_RIGHT]);
@@ -24,6 +31,7 @@ export class InputHandler {
   private onActionRelease: ActionReleaseCallback;
   
   private heldActions = new Map<number, { dasTimer: number; arrTimer: number }>();
+  private pendingEvents: { action: number; pressed: boolean }[] = [];
   private boundKeyDown: (e: KeyboardEvent) => void;
   private boundKeyUp: (e: KeyboardEvent) => void;
   
@@ -50,10 +58,7 @@ export class InputHandler {
     
     e.preventDefault();
     
-    if (this.heldActions.has(action)) return;
-    
-    this.heldActions.set(action, { dasTimer: DAS_DELAY, arrTimer: 0 });
-    this.onAction(action);
+    this.pendingEvents.push({ action, pressed: true });
   }
   
   private handleKeyUp(e: KeyboardEvent): void {
@@ -62,13 +67,28 @@ export class InputHandler {
     
     e.preventDefault();
     
-    if (this.heldActions.has(action)) {
-      this.heldActions.delete(action);
-      this.onActionRelease(action);
+    this.pendingEvents.push({ action, pressed: false });
+  }
+  
+  // Key events are queued and delivered on the next tick so input lands on tick boundaries.
+  private flushEvents(): void {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    
+    for (const { action, pressed } of events) {
+      if (pressed && !this.heldActions.has(action)) {
+        this.heldActions.set(action, { dasTimer: DAS_DELAY, arrTimer: 0 });
+        this.onAction(action);
+      } else if (!pressed && this.heldActions.has(action)) {
+        this.heldActions.delete(action);
+        this.onActionRelease(action);
+      }
     }
   }
   
   update(dt: number): void {
+    this.flushEvents();
+    
     for (const [action, timers] of this.heldActions) {
       if (!DAS_ACTIONS.has(action)) continue;
       
@@ -0,0 +1,54 @@
+import type { EngineSettings } from '../game/types';
+import type { EngineSnapshot } from '../game/snapshot';
+
+export const REPLAY_VERSION = 3;
+
+export const ReplayEventKind = {
+  ACTION: 0,
+  RELEASE: 1,
+  UPDATE: 2,
+} as const;
+
+export type ReplayEventKindType = typeof ReplayEventKind[keyof typeof ReplayEventKind];
+
+export interface Replay {
+  version: number;
+  seed: number;
+  settings: EngineSettings;
+  // Set when the game was continued from a save: playback restores it instead of starting a new game.
+  snapshot: EngineSnapshot | null;
+  // Length of every engine tick in ms; ticks are fixed, so runs of them are stored as counts.
+  frameDuration: number;
+  // Flat [kind, value] pairs: an action id for ACTION/RELEASE, a number of consecutive ticks for UPDATE.
+  events: number[];
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+export function deserializeReplay(json: string): Replay {
+  const data = JSON.parse(json);
+  
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  
+  if (
+    typeof data.seed !== 'number'
+    || typeof data.frameDuration !== 'number'
+    || !Array.isArray(data.events)
+    || data.events.length % 2 !== 0
+  ) {
+    throw new Error('Malformed replay');
+  }
+  
+  return {
+    version: data.version,
+    seed: data.seed,
+    settings: data.settings ?? {},
+    snapshot: data.snapshot ?? null,
+    frameDuration: data.frameDuration,
+    events: data.events,
+  };
+}
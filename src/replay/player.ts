@@ -0,0 +1,79 @@
+import { GameEngine } from '../game/engine';
+import { ReplayEventKind } from './format';
+import type { Replay } from './format';
+
+export class ReplayPlayer {
+  private replay: Replay;
+  private cursor: number = 0;
+  private runTicks: number = 0;
+  private pendingTime: number = 0;
+  
+  engine: GameEngine;
+  paused: boolean = false;
+  speed: number = 1;
+  
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.engine = new GameEngine({ ...replay.settings, seed: replay.seed });
+    if (replay.snapshot) {
+      this.engine.restoreSnapshot(replay.snapshot);
+    } else {
+      this.engine.start();
+    }
+  }
+  
+  update(dt: number): void {
+    if (this.paused || this.isFinished()) return;
+    
+    this.pendingTime += dt * this.speed;
+    
+    const { frameDuration } = this.replay;
+    while (!this.isFinished()) {
+      if (this.replay.events[this.cursor] === ReplayEventKind.UPDATE) {
+        if (this.pendingTime < frameDuration) break;
+        this.pendingTime -= frameDuration;
+      }
+      
+      this.applyEvent();
+    }
+  }
+  
+  step(): void {
+    this.pendingTime = 0;
+    
+    while (!this.isFinished()) {
+      if (this.applyEvent() === ReplayEventKind.UPDATE) break;
+    }
+  }
+  
+  // Applies the next event, or the next tick of a run of them, and returns its kind.
+  private applyEvent(): number {
+    const kind = this.replay.events[this.cursor];
+    const value = this.replay.events[this.cursor + 1];
+    
+    switch (kind) {
+      case ReplayEventKind.ACTION:
+        this.engine.handleAction(value);
+        break;
+      case ReplayEventKind.RELEASE:
+        this.engine.handleActionRelease(value);
+        break;
+      case ReplayEventKind.UPDATE:
+        this.engine.update(this.replay.frameDuration);
+        if (++this.runTicks < value) return kind;
+        this.runTicks = 0;
+        break;
+    }
+    
+    this.cursor += 2;
+    return kind;
+  }
+  
+  togglePause(): void {
+    this.paused = !this.paused;
+  }
+  
+  isFinished(): boolean {
+    return this.cursor >= this.replay.events.length;
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../game/engine';
+import { Action, GameStatus } from '../game/types';
+import { FRAME_DURATION } from '../game/constants';
+import { seededRandom } from '../utils/math';
+import { ReplayRecorder } from './recorder';
+import { ReplayPlayer } from './player';
+import { serializeReplay, deserializeReplay, ReplayEventKind } from './format';
+import type { Replay } from './format';
+
+// Plays random inputs on a few ticks out of many, the way a person leaves gaps between presses.
+function recordGame(seed: number): { engine: GameEngine; replay: Replay } {
+  const engine = new GameEngine({ mode: 'sprint', seed });
+  const recorder = new ReplayRecorder(engine);
+  let finished: Replay | null = null;
+  recorder.setOnFinish((replay) => finished = replay);
+  recorder.start();
+  
+  const random = seededRandom(seed);
+  for (let tick = 0; tick < 20000 && !finished; tick++) {
+    if (random() < 0.2) {
+      const action = [Action.MOVE_LEFT, Action.MOVE_RIGHT, Action.ROTATE_CW, Action.HARD_DROP][Math.floor(random() * 4)];
+      recorder.handleAction(action);
+      recorder.handleActionRelease(action);
+    }
+    recorder.update();
+  }
+  
+  return { engine, replay: finished ?? recorder.getReplay()! };
+}
+
+describe('replays', () => {
+  it('play back to the same final state', () => {
+    const { engine, replay } = recordGame(7);
+    const player = new ReplayPlayer(deserializeReplay(serializeReplay(replay)));
+    player.update(Infinity);
+    
+    expect(player.isFinished()).toBe(true);
+    expect(player.engine.state).toEqual(engine.state);
+  });
+  
+  it('store each run of ticks as one counted update', () => {
+    const { engine, replay } = recordGame(7);
+    const { events } = replay;
+    let ticks = 0;
+    
+    for (let i = 0; i < events.length; i += 2) {
+      if (events[i] !== ReplayEventKind.UPDATE) continue;
+      ticks += events[i + 1];
+      expect(events[i + 2]).not.toBe(ReplayEventKind.UPDATE);
+    }
+    expect(ticks).toBe(Math.round(engine.state.time / replay.frameDuration));
+  });
+  
+  it('step one tick at a time through a run', () => {
+    const { replay } = recordGame(3);
+    const player = new ReplayPlayer(replay);
+    
+    player.step();
+    expect(player.engine.state.time).toBeCloseTo(replay.frameDuration);
+    player.step();
+    expect(player.engine.state.time).toBeCloseTo(replay.frameDuration * 2);
+  });
+  
+  it('pick up from a continued save', () => {
+    const { engine } = recordGame(5);
+    const saved = new GameEngine({ mode: 'sprint', seed: 5 });
+    saved.start();
+    for (let tick = 0; tick < 300; tick++) {
+      saved.update(FRAME_DURATION);
+    }
+    
+    const recorder = new ReplayRecorder(engine);
+    engine.restoreSnapshot(saved.createSnapshot());
+    recorder.handleAction(Action.START_PAUSE);
+    for (let tick = 0; tick < 300; tick++) {
+      recorder.update();
+    }
+    
+    const player = new ReplayPlayer(recorder.getReplay()!);
+    player.update(Infinity);
+    expect(player.engine.state).toEqual(engine.state);
+  });
+  
+  it('keep recording a practice game carried on with undo after a top-out', () => {
+    const engine = new GameEngine({ mode: 'practice', seed: 2 });
+    const recorder = new ReplayRecorder(engine);
+    let saved: Replay | null = null;
+    recorder.setOnFinish((replay) => saved = replay);
+    recorder.start();
+    
+    const topOut = () => {
+      while (engine.status === GameStatus.PLAYING) {
+        recorder.handleAction(Action.HARD_DROP);
+        recorder.update();
+      }
+    };
+    topOut();
+    recorder.handleAction(Action.UNDO);
+    expect(engine.status).toBe(GameStatus.PLAYING);
+    topOut();
+    
+    const player = new ReplayPlayer(saved!);
+    player.update(Infinity);
+    expect(player.engine.state).toEqual(engine.state);
+  });
+});
@@ -0,0 +1,88 @@
+import type { GameEngine } from '../game/engine';
+import { GameStatus } from '../game/types';
+import { FRAME_DURATION } from '../game/constants';
+import { REPLAY_VERSION, ReplayEventKind } from './format';
+import type { Replay, ReplayEventKindType } from './format';
+import type { EngineSnapshot } from '../game/snapshot';
+
+export class ReplayRecorder {
+  private engine: GameEngine;
+  private replay: Replay | null = null;
+  private recording: boolean = false;
+  private onFinish?: (replay: Replay) => void;
+  
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+    this.engine.on('start', () => this.begin(null));
+    this.engine.on('restore', () => this.begin(this.engine.createSnapshot()));
+  }
+  
+  setOnFinish(callback: (replay: Replay) => void): void {
+    this.onFinish = callback;
+  }
+  
+  start(): void {
+    this.engine.start();
+  }
+  
+  private begin(snapshot: EngineSnapshot | null): void {
+    this.replay = {
+      version: REPLAY_VERSION,
+      seed: this.engine.getSeed(),
+      settings: this.engine.getSettings(),
+      snapshot,
+      frameDuration: FRAME_DURATION,
+      events: [],
+    };
+    this.recording = true;
+  }
+  
+  private push(kind: ReplayEventKindType, value: number): void {
+    if (!this.recording || !this.replay) return;
+    
+    const { events } = this.replay;
+    if (kind === ReplayEventKind.UPDATE && events[events.length - 2] === ReplayEventKind.UPDATE) {
+      events[events.length - 1] += value;
+    } else {
+      events.push(kind, value);
+    }
+    
+    if (this.engine.status === GameStatus.GAME_OVER) {
+      this.recording = false;
+      this.onFinish?.(this.getReplay()!);
+    }
+  }
+  
+  handleAction(action: number): void {
+    const replay = this.replay;
+    const wasOver = this.engine.status === GameStatus.GAME_OVER;
+    this.engine.handleAction(action);
+    
+    // The action that started a new game is implied by the replay itself.
+    if (this.replay !== replay) return;
+    
+    // Undo after a top-out carries the same game on, so recording picks up again where it stopped.
+    if (wasOver && this.engine.status === GameStatus.PLAYING) {
+      this.recording = true;
+    }
+    this.push(ReplayEventKind.ACTION, action);
+  }
+  
+  handleActionRelease(action: number): void {
+    this.engine.handleActionRelease(action);
+    this.push(ReplayEventKind.RELEASE, action);
+  }
+  
+  // Advances the engine by one fixed tick.
+  update(): void {
+    if (this.engine.status !== GameStatus.PLAYING) return;
+    
+    this.engine.update(FRAME_DURATION);
+    this.push(ReplayEventKind.UPDATE, 1);
+  }
+  
+  getReplay(): Replay | null {
+    if (!this.replay) return null;
+    return { ...this.replay, events: [...this.replay.events] };
+  }
+}
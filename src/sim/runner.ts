@@ -0,0 +1,140 @@
+import { GameEngine } from '../game/engine';
+import { GameStatus, Action } from '../game/types';
+import type { EngineSettings, GameEndReason } from '../game/types';
+import { FRAME_DURATION } from '../game/constants';
+import { BotPlayer, DEFAULT_BOT_WEIGHTS } from '../game/bot';
+import type { BotWeights } from '../game/bot';
+
+export type ControllerName = 'bot' | 'drop';
+export const CONTROLLER_NAMES: ControllerName[] = ['bot', 'drop'];
+
+export interface SimulationController {
+  update(dt: number): void;
+}
+
+export interface SimulationOptions {
+  games: number;
+  seed: number;
+  settings: EngineSettings;
+  controller: ControllerName;
+  weights: BotWeights;
+  maxPieces: number;
+}
+
+export interface GameSummary {
+  seed: number;
+  score: number;
+  lines: number;
+  level: number;
+  pieces: number;
+  time: number;
+  finesseFaults: number;
+  endReason: GameEndReason | 'pieceLimit';
+}
+
+export interface SimulationSummary {
+  options: SimulationOptions;
+  games: GameSummary[];
+  totals: {
+    meanScore: number;
+    meanLines: number;
+    meanPieces: number;
+    endReasons: Record<string, number>;
+  };
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  games: 10,
+  seed: 1,
+  settings: {},
+  controller: 'bot',
+  weights: DEFAULT_BOT_WEIGHTS,
+  maxPieces: 1000,
+};
+
+// Endless modes stop at the piece limit; the frame limit catches a controller that stops placing.
+const FRAMES_PER_PIECE_LIMIT = 3600;
+
+// A scripted baseline that hard drops every piece where it spawns.
+class DropController implements SimulationController {
+  private engine: GameEngine;
+  
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+  }
+  
+  update(): void {
+    if (this.engine.status === GameStatus.PLAYING && this.engine.state.currentPiece) {
+      this.engine.handleAction(Action.HARD_DROP);
+    }
+  }
+}
+
+export function createController(name: ControllerName, engine: GameEngine, weights: BotWeights): SimulationController {
+  if (name === 'drop') {
+    return new DropController(engine);
+  }
+  
+  // One input per tick keeps the bot's pace within what the engine sees from a keyboard.
+  const bot = new BotPlayer(engine, engine, weights);
+  bot.inputDelay = FRAME_DURATION;
+  return bot;
+}
+
+export function runGame(
+  seed: number,
+  options: SimulationOptions,
+  create: (engine: GameEngine) => SimulationController = (engine) => createController(options.controller, engine, options.weights)
+): GameSummary {
+  const engine = new GameEngine({ ...options.settings, seed });
+  const controller = create(engine);
+  let pieces = 0;
+  engine.on('lock', () => pieces++);
+  engine.start();
+  
+  const maxFrames = options.maxPieces * FRAMES_PER_PIECE_LIMIT;
+  for (let frame = 0; frame < maxFrames && engine.status === GameStatus.PLAYING && pieces < options.maxPieces; frame++) {
+    controller.update(FRAME_DURATION);
+    engine.update(FRAME_DURATION);
+  }
+  
+  const { state } = engine;
+  return {
+    seed,
+    score: state.score,
+    lines: state.lines,
+    level: state.level,
+    pieces,
+    time: Math.round(state.time),
+    finesseFaults: state.finesse.faults,
+    endReason: state.endReason ?? 'pieceLimit',
+  };
+}
+
+export function runSimulation(
+  options: SimulationOptions,
+  create?: (engine: GameEngine) => SimulationController
+): SimulationSummary {
+  const games: GameSummary[] = [];
+  for (let i = 0; i < options.games; i++) {
+    games.push(runGame(options.seed + i, options, create));
+  }
+  
+  const mean = (value: (game: GameSummary) => number) =>
+    games.length > 0 ? games.reduce((sum, game) => sum + value(game), 0) / games.length : 0;
+  const endReasons: Record<string, number> = {};
+  for (const game of games) {
+    endReasons[game.endReason] = (endReasons[game.endReason] ?? 0) + 1;
+  }
+  
+  return {
+    options,
+    games,
+    totals: {
+      meanScore: mean(game => game.score),
+      meanLines: mean(game => game.lines),
+      meanPieces: mean(game => game.pieces),
+      endReasons,
+    },
+  };
+}
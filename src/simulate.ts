@@ -0,0 +1,98 @@
+// Headless entry for Node: plays seeded games without the DOM, three or a canvas and prints a JSON summary.
+// Run with `npm run simulate -- --games 100 --mode sprint --controller bot`.
+import { runSimulation, DEFAULT_SIMULATION_OPTIONS, CONTROLLER_NAMES } from './sim/runner';
+import type { SimulationOptions } from './sim/runner';
+import type { EngineSettings, GravityCurve, LockResetPolicy, Kick180Set, RandomizerName } from './game/types';
+import { GAME_MODE_ORDER } from './game/modes';
+import { DELAY_PRESETS, MAX_START_LEVEL } from './game/constants';
+import type { DelayPreset } from './game/constants';
+import { ROTATION_SYSTEMS } from './game/rotation';
+import { PIECE_SET_ORDER } from './game/piece';
+
+type SettingParser = (settings: EngineSettings, value: string) => EngineSettings;
+
+const USAGE = `Usage: npm run simulate -- [--games N] [--seed N] [--max-pieces N] [--controller ${CONTROLLER_NAMES.join('|')}]
+  [--weights JSON] [--mode NAME] [--delays NAME] [--gravity NAME] [--start-level N] [--lock-reset NAME]
+  [--kicks180 NAME] [--rotation NAME] [--piece-set NAME] [--randomizer NAME]`;
+
+const GRAVITY_CURVES: GravityCurve[] = ['guideline', 'table'];
+const LOCK_RESET_POLICIES: LockResetPolicy[] = ['move', 'step', 'none'];
+const KICK_180_SETS: Kick180Set[] = ['modern', 'none'];
+const RANDOMIZER_NAMES: RandomizerName[] = ['bag7', 'bag14', 'random', 'nes', 'tgm1', 'tgm2'];
+
+function parseChoice<T extends string>(flag: string, value: string, choices: readonly T[]): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`--${flag} must be one of ${choices.join(', ')}, not "${value}"`);
+  }
+  return value as T;
+}
+
+function parseCount(flag: string, value: string, max: number = Infinity): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1 || count > max) {
+    const range = max < Infinity ? `a whole number from 1 to ${max}` : 'a positive whole number';
+    throw new Error(`--${flag} must be ${range}, not "${value}"`);
+  }
+  return count;
+}
+
+const SETTING_FLAGS: Record<string, SettingParser> = {
+  'mode': (settings, value) => ({ ...settings, mode: parseChoice('mode', value, GAME_MODE_ORDER) }),
+  'delays': (settings, value) => ({
+    ...settings,
+    delays: parseChoice('delays', value, Object.keys(DELAY_PRESETS) as DelayPreset[]),
+  }),
+  'gravity': (settings, value) => ({ ...settings, gravity: parseChoice('gravity', value, GRAVITY_CURVES) }),
+  'start-level': (settings, value) => ({ ...settings, startLevel: parseCount('start-level', value, MAX_START_LEVEL) }),
+  'lock-reset': (settings, value) => ({ ...settings, lockReset: parseChoice('lock-reset', value, LOCK_RESET_POLICIES) }),
+  'kicks180': (settings, value) => ({ ...settings, kicks180: parseChoice('kicks180', value, KICK_180_SETS) }),
+  'rotation': (settings, value) => ({
+    ...settings,
+    rotationSystem: parseChoice('rotation', value, Object.values(ROTATION_SYSTEMS).map(system => system.name)),
+  }),
+  'piece-set': (settings, value) => ({ ...settings, pieceSet: parseChoice('piece-set', value, PIECE_SET_ORDER) }),
+  'randomizer': (settings, value) => ({ ...settings, randomizer: parseChoice('randomizer', value, RANDOMIZER_NAMES) }),
+};
+
+function parseArgs(args: string[]): SimulationOptions {
+  const options: SimulationOptions = { ...DEFAULT_SIMULATION_OPTIONS };
+  
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].replace(/^--/, '').split('=', 2);
+    const value = inline ?? args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${flag}`);
+    }
+    
+    if (flag === 'games') {
+      options.games = parseCount(flag, value);
+    } else if (flag === 'seed') {
+      options.seed = parseCount(flag, value);
+    } else if (flag === 'max-pieces') {
+      options.maxPieces = parseCount(flag, value);
+    } else if (flag === 'controller') {
+      options.controller = parseChoice(flag, value, CONTROLLER_NAMES);
+    } else if (flag === 'weights') {
+      options.weights = { ...options.weights, ...JSON.parse(value) };
+    } else if (SETTING_FLAGS[flag]) {
+      options.settings = SETTING_FLAGS[flag](options.settings, value);
+    } else {
+      throw new Error(`Unknown option --${flag}`);
+    }
+  }
+  
+  return options;
+}
+
+const nodeProcess = (globalThis as { process?: { argv: string[]; exitCode?: number } }).process;
+let options: SimulationOptions | null = null;
+try {
+  options = parseArgs(nodeProcess?.argv.slice(2) ?? []);
+} catch (error) {
+  console.error(`${error instanceof Error ? error.message : error}\n${USAGE}`);
+  if (nodeProcess) nodeProcess.exitCode = 1;
+}
+
+if (options) {
+  console.log(JSON.stringify(runSimulation(options), null, 2));
+}
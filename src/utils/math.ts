@@ -8,7 +8,11 @@ export function clamp(value: number, min: number, max: number): number {
 
 export function seededRandom(seed: number): () => number {
   return function() {
-    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
-    return seed / 0x7fffffff;
+    seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+    return seed / 0x80000000;
   };
 }
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}